@@ -0,0 +1,17 @@
+// mirrors the header layout in src/audio-frame.ts, kept free of browser APIs so the tests can load it
+const AUDIO_FRAME_HEADER_BYTES = 16;
+const AUDIO_FRAME_TYPES = { 1: 'clip', 2: 'chunk' };
+const AUDIO_FRAME_ENCODINGS = { 1: 'wav', 2: 'mp3', 3: 'linear16' };
+
+export function decodeAudioFrame(buffer) {
+	const view = new DataView(buffer);
+	return {
+		version: view.getUint8(0),
+		type: AUDIO_FRAME_TYPES[view.getUint8(1)],
+		encoding: AUDIO_FRAME_ENCODINGS[view.getUint8(2)],
+		seq: view.getUint32(4, true),
+		sampleRate: view.getUint32(8, true),
+		durationMs: view.getUint32(12, true),
+		audio: buffer.slice(AUDIO_FRAME_HEADER_BYTES),
+	};
+}
@@ -1,32 +1,138 @@
 import { startVad } from './vad/index.js';
-import { base64ToArrBuff, queueSound, stopPlaying } from './utils.js';
+import { decodeAudioFrame } from './audio-frame.js';
+import { onPlayback, queueAudioChunk, queueSound, stopPlaying } from './utils.js';
 import arraybufferToAudiobuffer from 'https://cdn.jsdelivr.net/npm/arraybuffer-to-audiobuffer@0.0.5/+esm';
 
+const PROTOCOL_VERSION = 1; // keep in sync with src/protocol.ts
+const SESSION_STORAGE_KEY = 'talk2ai-session';
+const USER_STORAGE_KEY = 'talk2ai-user';
+const TOKEN_STORAGE_KEY = 'talk2ai-token';
+const WEBSOCKET_PROTOCOL = 'talk2ai'; // keep in sync with src/auth.ts
+const MAX_RECONNECT_DELAY_MS = 10000;
+
 // app state
 window.socket = undefined;
 window.vadInitialized = false;
 window.thinkingTimeoutId = undefined;
 window.visualizationIntervalId = undefined;
+let reconnectAttempts = 0;
+let fetchingToken = false;
+
+// the assistant remembers this browser's user across sessions
+function userId() {
+	let user = localStorage.getItem(USER_STORAGE_KEY);
+	if (!user) {
+		user = crypto.randomUUID();
+		localStorage.setItem(USER_STORAGE_KEY, user);
+	}
+	return user;
+}
 
-window.connectWebSocket = function () {
-	if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+// every socket needs a fresh token, sending the previous one keeps the same anonymous user
+async function fetchToken() {
+	try {
+		const response = await fetch('/api/token', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ token: localStorage.getItem(TOKEN_STORAGE_KEY) ?? undefined }),
+		});
+		if (!response.ok) throw new Error(`${response.status} ${await response.text()}`);
+		const { token, user } = await response.json();
+		localStorage.setItem(TOKEN_STORAGE_KEY, token);
+		// sessions belong to the user who started them, a new user starts over
+		if (user !== localStorage.getItem(USER_STORAGE_KEY)) {
+			localStorage.setItem(USER_STORAGE_KEY, user);
+			localStorage.removeItem(SESSION_STORAGE_KEY);
+		}
+		return token;
+	} catch (error) {
+		console.warn('No token for the WebSocket, connecting without:', error);
+		return null;
+	}
+}
+
+// an explicit ?session= wins, otherwise resume the session this browser used last
+function websocketUrl() {
+	const params = new URLSearchParams(location.search);
+	const session = params.get('session') || localStorage.getItem(SESSION_STORAGE_KEY);
+	if (session) params.set('session', session);
+	if (!params.has('user')) params.set('user', userId());
+	const query = params.toString();
+	return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}/websocket${query ? `?${query}` : ''}`;
+}
+
+window.connectWebSocket = async function () {
+	if (fetchingToken || (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING))) {
 		console.log('WebSocket already open or connecting.');
 		return;
 	}
-	socket = new WebSocket(`${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}/websocket`);
+	// a ?token= in the page URL comes from the embedding app and is forwarded with the other params
+	fetchingToken = true;
+	const token = new URLSearchParams(location.search).has('token') ? null : await fetchToken();
+	fetchingToken = false;
+	// forward page query params (e.g. ?stt=workers-ai) so sessions can pick their providers
+	socket = new WebSocket(websocketUrl(), token ? [WEBSOCKET_PROTOCOL, `token.${token}`] : undefined);
+	socket.binaryType = 'arraybuffer'; // ai audio arrives as binary frames
 
 	socket.onopen = () => {
 		console.log('WebSocket connection established.');
+		reconnectAttempts = 0;
+		socket.send(JSON.stringify({ type: 'hello', version: PROTOCOL_VERSION, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }));
 		setStatus(vadInitialized ? 'Listening...' : 'Ready to initialize VAD.');
 	};
 
 	socket.onmessage = async (event) => {
+		if (event.data instanceof ArrayBuffer) {
+			const frame = decodeAudioFrame(event.data);
+			if (frame.type === 'chunk') {
+				queueAudioChunk(frame.audio, frame.seq, frame.sampleRate, setStatus); // streamed pcm audio for the ai's response
+			} else {
+				queueSound(frame.audio, frame.seq, setStatus); // complete audio clip for one sentence
+			}
+			return;
+		}
+
 		const data = JSON.parse(event.data);
 		console.log('Client received WebSocket message:', data);
 		switch (data.type) {
-			case 'audio': // ai's response
-				printSpeach(data.text, 'ai'); // displays text
-				queueSound(data.audio, setStatus); // plays audio
+			case 'hello': // server's protocol version and the session to resume after a reload or network drop
+				if (data.version !== PROTOCOL_VERSION) console.warn('Server speaks protocol version', data.version);
+				localStorage.setItem(SESSION_STORAGE_KEY, data.sessionId);
+				break;
+			case 'persona': // the assistant this session talks to
+				showPersona(data.name, data.description);
+				break;
+			case 'voice': // the voice the assistant speaks with
+				showVoice(data.voice, data.appliesFrom);
+				break;
+			case 'language': // the language the session listens for, and the one detected while on auto
+				showLanguage(data.language, data.detected);
+				break;
+			case 'history': // stored conversation of a resumed session
+				showHistory(data.turns);
+				break;
+			case 'export': // transcript requested with exportTranscript()
+				downloadFile(data.content, data.contentType, data.filename);
+				break;
+			case 'error':
+				console.error(`Server error (${data.code}):`, data.message);
+				if (data.code === 'unsupported_version') setStatus('App is out of date. Please refresh.');
+				// the picker goes back to the voice that is still speaking
+				if (data.code === 'voice_unavailable' || data.code === 'unknown_voice') {
+					resetVoicePicker();
+					setStatus(data.message);
+				}
+				if (data.code === 'rate_limited') {
+					// reconnecting would run into the same limit
+					window.handleStopConversation();
+					setStatus(data.message);
+				}
+				break;
+			case 'sources': // knowledge base documents the next answer draws on
+				showSources(data.sources);
+				break;
+			case 'ai_text': // ai's response, its audio follows as a binary frame with the same seq
+				printSpeach(data.text, 'ai');
 				break;
 			case 'text': // user's transcribed speech
 				if (data.interim) {
@@ -53,13 +159,80 @@ window.connectWebSocket = function () {
 	socket.onclose = (event) => {
 		console.log('WebSocket connection closed:', event.reason);
 		if (conversationActive) {
-			setStatus('Connection lost. Please Stop and Start again.');
+			// flaky networks drop sockets all the time, the session picks up where it left off
+			const delay = Math.min(1000 * 2 ** reconnectAttempts++, MAX_RECONNECT_DELAY_MS);
+			setStatus('Connection lost. Reconnecting...');
+			setTimeout(() => {
+				if (conversationActive) connectWebSocket();
+			}, delay);
 		} else {
 			setStatus('Disconnected. Ready to connect.');
 		}
 	};
 };
 
+// let the server know what was actually heard so it can trim its history
+onPlayback((report) => {
+	if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'playback', ...report }));
+});
+
+// switches the session to another persona, e.g. configurePersona('support')
+window.configurePersona = function (name) {
+	if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'configure', persona: name }));
+};
+
+// switches the assistant's voice from the next sentence on, ids come from /api/voices
+window.configureVoice = function (id) {
+	if (socket && socket.readyState === WebSocket.OPEN) {
+		socket.send(JSON.stringify({ type: 'configure', voice: id }));
+	} else {
+		setStatus('Start a conversation to switch voices.');
+	}
+};
+
+// a BCP-47 language, or auto to answer in whatever language the user speaks
+window.configureLanguage = function (language) {
+	if (socket && socket.readyState === WebSocket.OPEN) {
+		socket.send(JSON.stringify({ type: 'configure', language }));
+	} else {
+		setStatus('Start a conversation to switch languages.');
+	}
+};
+
+// format is one of json, markdown, vtt or srt
+window.exportTranscript = async function (format = 'markdown') {
+	if (socket && socket.readyState === WebSocket.OPEN) {
+		socket.send(JSON.stringify({ type: 'export', format }));
+		return;
+	}
+	// not connected, the stored session can still be downloaded over http with a token of the user who started it
+	const token = await fetchToken();
+	const session = localStorage.getItem(SESSION_STORAGE_KEY);
+	if (!session || !token) {
+		setStatus('Nothing to export yet.');
+		return;
+	}
+	try {
+		const response = await fetch(`/api/sessions/${encodeURIComponent(session)}/transcript?format=${format}`, {
+			headers: { Authorization: `Bearer ${token}` },
+		});
+		if (!response.ok) throw new Error(`${response.status} ${await response.text()}`);
+		const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `transcript-${session}`;
+		downloadFile(await response.blob(), response.headers.get('Content-Type'), filename);
+	} catch (error) {
+		console.error('Failed to export the transcript:', error);
+		setStatus('Nothing to export yet.');
+	}
+};
+
+function downloadFile(content, contentType, filename) {
+	const link = document.createElement('a');
+	link.href = URL.createObjectURL(new Blob([content], { type: contentType }));
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(link.href);
+}
+
 window.printSpeach = function (msg, type = 'user') {
 	if (type === 'user') {
 		addMessage(msg, 'user');
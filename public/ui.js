@@ -5,6 +5,9 @@ const statusText = document.getElementById('statusText');
 const startButton = document.getElementById('startButton');
 const messagesArea = document.getElementById('messagesArea');
 const clearChatButton = document.getElementById('clearChatButton');
+const exportButton = document.getElementById('exportButton');
+const voiceSelect = document.getElementById('voiceSelect');
+const languageSelect = document.getElementById('languageSelect');
 const voiceVisualizationArea = document.getElementById('voiceVisualizationArea');
 const voiceBars = Array.from(voiceVisualizationArea.querySelectorAll('.voice-bar'));
 
@@ -60,6 +63,92 @@ window.addMessage = function (text, sender) {
 	messagesArea.scrollTop = messagesArea.scrollHeight;
 };
 
+// replaces the chat with the conversation stored on the server
+window.showHistory = function (turns) {
+	messagesArea.innerHTML = '';
+	turns.forEach(({ role, text }) => addMessage(text, role === 'user' ? 'user' : 'ai'));
+	setStatus(conversationActive ? 'Listening...' : 'Conversation restored.');
+};
+
+// the header names the persona unless it is the default one
+window.showPersona = function (name, description) {
+	const title = document.querySelector('.header h1');
+	title.textContent = name === 'default' ? 'AI Voice Assistant' : name;
+	title.title = description || '';
+};
+
+let currentVoice = '';
+
+// the picker offers the voices the server can speak with
+async function loadVoices() {
+	try {
+		// voices the session can speak depend on the TTS providers the page asks for
+		const params = new URLSearchParams(location.search);
+		const query = new URLSearchParams([...params].filter(([name]) => name === 'tts' || name === 'tts_mode'));
+		const response = await fetch(`/api/voices?${query}`);
+		const voices = (await response.json()).filter((voice) => voice.available);
+		// only languages some voice can speak are offered, a persona's own language is added by showLanguage
+		const spoken = new Set(voices.map(({ language }) => language.split('-')[0]));
+		[...languageSelect.options]
+			.filter((option) => option.value !== 'auto' && option.value !== languageSelect.value && !spoken.has(option.value.split('-')[0]))
+			.forEach((option) => option.remove());
+		voices.forEach(({ id, name, language, gender }) => {
+			const option = document.createElement('option');
+			option.value = id;
+			option.textContent = `${name} (${language}${gender ? `, ${gender}` : ''})`;
+			voiceSelect.appendChild(option);
+		});
+		voiceSelect.value = currentVoice;
+	} catch (error) {
+		console.error('Failed to load voices:', error);
+	}
+}
+
+// marks the voice the server confirmed, personas may speak with one that is not in the list
+window.showVoice = function (id, appliesFrom) {
+	currentVoice = id;
+	voiceSelect.value = id;
+	// streaming TTS finishes the current answer with the old voice
+	if (appliesFrom === 'next_answer' && statusText.textContent === 'AI Speaking...') setStatus('AI Speaking... (new voice from the next answer)');
+};
+
+// a voice the server rejected is not shown as picked
+window.resetVoicePicker = function () {
+	voiceSelect.value = currentVoice;
+};
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+// languages set by a persona may be missing from the picker, they get an option of their own
+window.showLanguage = function (language, detected) {
+	if (![...languageSelect.options].some((option) => option.value === language)) {
+		languageSelect.add(new Option(languageNames.of(language.split('-')[0]) ?? language, language));
+	}
+	languageSelect.value = language;
+	languageSelect.options[0].textContent = detected ? `Auto-detect (${languageNames.of(detected.split('-')[0]) ?? detected})` : 'Auto-detect';
+};
+
+// lists the documents an answer is based on, linked when they have a source url
+window.showSources = function (sources) {
+	const list = document.createElement('div');
+	list.classList.add('sources');
+	list.textContent = 'Sources: ';
+	sources.forEach(({ title, source }, index) => {
+		const link = /^https?:\/\//i.test(source ?? '');
+		const item = document.createElement(link ? 'a' : 'span');
+		item.textContent = title;
+		if (link) {
+			item.href = source;
+			item.target = '_blank';
+			item.rel = 'noopener';
+		}
+		if (index) list.append(', ');
+		list.appendChild(item);
+	});
+	messagesArea.appendChild(list);
+	messagesArea.scrollTop = messagesArea.scrollHeight;
+};
+
 let interimMessageBubble = null;
 
 window.showInterimTranscript = function (text) {
@@ -175,6 +264,8 @@ window.handleStopConversation = function () {
 	}, 200);
 
 	stopPlaying();
+	// stop the server from generating and sending the rest of the answer
+	if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'cmd', data: 'interrupt' }));
 };
 
 window.handleClearChat = function () {
@@ -210,3 +301,7 @@ messagesArea.scrollTop = messagesArea.scrollHeight;
 startButton.addEventListener('click', handleStartConversation);
 stopButton.addEventListener('click', handleStopConversation);
 clearChatButton.addEventListener('click', handleClearChat);
+exportButton.addEventListener('click', () => exportTranscript('markdown'));
+voiceSelect.addEventListener('change', () => configureVoice(voiceSelect.value));
+languageSelect.addEventListener('change', () => configureLanguage(languageSelect.value));
+loadVoices();
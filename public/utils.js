@@ -1,25 +1,46 @@
 import arraybufferToAudiobuffer from 'https://cdn.jsdelivr.net/npm/arraybuffer-to-audiobuffer@0.0.5/+esm';
 
-export function base64ToArrBuff(base64Str) {
-	return Uint8Array.from(atob(base64Str), (c) => c.charCodeAt(0)).buffer;
-}
-
 const sounds = [];
 let timeOutId = null;
 let isSpeaking = false;
 const playingSources = [];
 const audioCtx = new AudioContext();
+let nextChunkTime = 0; // when the next streamed chunk should start, in audioCtx time
+let leftoverByte = null; // odd trailing byte of a streamed chunk, completes the next sample
+const seqStarts = new Map(); // audioCtx time at which each sequence id started playing
+let playbackListener = () => {};
+
+// reports started/finished/interrupted per audio sequence id, see PlaybackMessage in src/protocol.ts
+export function onPlayback(listener) {
+	playbackListener = listener;
+}
+
+function reportPlayback(seq, event, offsetMs) {
+	playbackListener({ seq, event, offsetMs: offsetMs === undefined ? undefined : Math.round(offsetMs) });
+}
+
 // handles playing audio queue
 // implemented as functions because class implementation gets cleaned
 // prematurely
-export function queueSound(sound, setStatus) {
-	sounds.push(sound);
+export function queueSound(sound, seq, setStatus) {
+	sounds.push({ sound, seq });
 	playNext(setStatus);
 }
 
 export function stopPlaying() {
+	// tell the server how far the current answer got before it was cut off
+	const now = audioCtx.currentTime;
+	const started = playingSources.filter((source) => source.startTime <= now);
+	if (started.length) {
+		const seq = started[started.length - 1].seq;
+		reportPlayback(seq, 'interrupted', (now - seqStarts.get(seq)) * 1000);
+	} else if (playingSources.length || sounds.length) {
+		reportPlayback(playingSources.length ? playingSources[0].seq : sounds[0].seq, 'interrupted', 0);
+	}
+
 	playingSources.forEach((source) => {
 		try {
+			source.stopped = true;
 			source.stop();
 		} catch (e) {
 			console.error('Error stopping source:', e);
@@ -27,22 +48,82 @@ export function stopPlaying() {
 		sounds.splice(0, sounds.length);
 		if (timeOutId) clearTimeout(timeOutId);
 	});
+	playingSources.splice(0, playingSources.length);
+	seqStarts.clear();
+	nextChunkTime = 0;
+	leftoverByte = null;
+}
+
+// plays headerless 16-bit little-endian PCM chunks back to back without gaps
+export function queueAudioChunk(sound, seq, sampleRate, setStatus) {
+	let bytes = new Uint8Array(sound);
+	if (leftoverByte !== null) {
+		const joined = new Uint8Array(bytes.length + 1);
+		joined[0] = leftoverByte;
+		joined.set(bytes, 1);
+		bytes = joined;
+		leftoverByte = null;
+	}
+	if (bytes.length % 2) {
+		leftoverByte = bytes[bytes.length - 1];
+		bytes = bytes.subarray(0, bytes.length - 1);
+	}
+	if (!bytes.length) return;
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const audioBuffer = audioCtx.createBuffer(1, bytes.length / 2, sampleRate);
+	const channel = audioBuffer.getChannelData(0);
+	for (let i = 0; i < channel.length; i++) {
+		channel[i] = view.getInt16(i * 2, true) / 0x8000;
+	}
+
+	const source = audioCtx.createBufferSource();
+	source.buffer = audioBuffer;
+	source.connect(audioCtx.destination);
+	nextChunkTime = Math.max(nextChunkTime, audioCtx.currentTime);
+	source.start(nextChunkTime);
+	source.seq = seq;
+	source.startTime = nextChunkTime;
+	if (!seqStarts.has(seq)) {
+		seqStarts.set(seq, nextChunkTime);
+		setTimeout(() => seqStarts.has(seq) && reportPlayback(seq, 'started'), (nextChunkTime - audioCtx.currentTime) * 1000);
+	}
+	nextChunkTime += audioBuffer.duration;
+	playingSources.push(source);
+	setStatus('AI Speaking...');
+	source.onended = () => {
+		if (source.stopped) return;
+		playingSources.splice(playingSources.indexOf(source), 1);
+		// the sentence is done once none of its chunks are left to play
+		if (!playingSources.some((other) => other.seq === seq)) {
+			reportPlayback(seq, 'finished', (audioCtx.currentTime - seqStarts.get(seq)) * 1000);
+		}
+		if (audioCtx.currentTime >= nextChunkTime) setStatus('Listening...');
+	};
 }
 
 function playNext(setStatus) {
 	if (!isSpeaking && sounds?.length > 0) {
 		isSpeaking = true;
 		setStatus('AI Speaking...');
-		const arrayBuff = base64ToArrBuff(sounds.shift());
-		arraybufferToAudiobuffer(arrayBuff, audioCtx).then((audioBuffer) => {
+		const { sound, seq } = sounds.shift();
+		arraybufferToAudiobuffer(sound, audioCtx).then((audioBuffer) => {
 			const source = audioCtx.createBufferSource();
 			source.buffer = audioBuffer;
 			source.connect(audioCtx.destination);
 			source.start();
+			source.seq = seq;
+			source.startTime = audioCtx.currentTime;
+			seqStarts.set(seq, source.startTime);
+			reportPlayback(seq, 'started');
 			playingSources.push(source);
 			source.onended = () => {
 				isSpeaking = false;
 				setStatus('Listening...');
+				if (source.stopped) return;
+				playingSources.splice(playingSources.indexOf(source), 1);
+				seqStarts.delete(seq);
+				reportPlayback(seq, 'finished', audioBuffer.duration * 1000);
 			};
 		});
 	} else {
@@ -0,0 +1,55 @@
+import type { AudioEncoding } from './text-to-speech';
+
+/**
+ * Server → client audio travels as binary WebSocket frames, JSON is kept for text and
+ * control messages. Every frame starts with a fixed 16 byte little-endian header:
+ *
+ *   offset  size  field
+ *   0       1     protocol version (AUDIO_FRAME_VERSION)
+ *   1       1     frame type (AudioFrameType)
+ *   2       1     encoding (ENCODING_IDS)
+ *   3       1     reserved, 0
+ *   4       4     sequence id, matches the `seq` of the sentence's `ai_text` message
+ *   8       4     sample rate in Hz
+ *   12      4     duration in ms, 0 when unknown (streamed chunks)
+ *   16      ...   raw audio bytes
+ *
+ * Keep `public/audio-frame.js#decodeAudioFrame` in sync when changing this layout.
+ */
+export const AUDIO_FRAME_VERSION = 1;
+export const AUDIO_FRAME_HEADER_BYTES = 16;
+
+export enum AudioFrameType {
+	/** a complete, self-describing clip for one sentence */
+	Clip = 1,
+	/** a piece of a streamed sentence, played back to back with its neighbours */
+	Chunk = 2,
+}
+
+const ENCODING_IDS: Record<AudioEncoding, number> = {
+	wav: 1,
+	mp3: 2,
+	linear16: 3,
+};
+
+export interface AudioFrame {
+	type: AudioFrameType;
+	seq: number;
+	encoding: AudioEncoding;
+	sampleRate: number;
+	durationMs?: number;
+	audio: ArrayBuffer;
+}
+
+export function encodeAudioFrame(frame: AudioFrame): ArrayBuffer {
+	const bytes = new Uint8Array(AUDIO_FRAME_HEADER_BYTES + frame.audio.byteLength);
+	const view = new DataView(bytes.buffer);
+	view.setUint8(0, AUDIO_FRAME_VERSION);
+	view.setUint8(1, frame.type);
+	view.setUint8(2, ENCODING_IDS[frame.encoding]);
+	view.setUint32(4, frame.seq, true);
+	view.setUint32(8, frame.sampleRate, true);
+	view.setUint32(12, frame.durationMs ?? 0, true);
+	bytes.set(new Uint8Array(frame.audio), AUDIO_FRAME_HEADER_BYTES);
+	return bytes.buffer;
+}
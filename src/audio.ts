@@ -0,0 +1,99 @@
+import type { AudioEncoding } from './text-to-speech';
+
+export interface WavInfo {
+	sampleRate: number;
+	channels: number;
+	bitsPerSample: number;
+	dataOffset: number;
+	dataLength: number;
+}
+
+/**
+ * Reads the `fmt ` and `data` chunks of a RIFF/WAVE buffer, returns null for anything else.
+ * Streamed WAVs often carry a placeholder data size, so the length is clamped to the buffer.
+ */
+export function parseWav(buffer: ArrayBuffer): WavInfo | null {
+	const view = new DataView(buffer);
+	if (buffer.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') return null;
+
+	let offset = 12;
+	let info: Partial<WavInfo> = {};
+	while (offset + 8 <= buffer.byteLength) {
+		const tag = readTag(view, offset);
+		const size = view.getUint32(offset + 4, true);
+		if (tag === 'fmt ') {
+			info.channels = view.getUint16(offset + 10, true);
+			info.sampleRate = view.getUint32(offset + 12, true);
+			info.bitsPerSample = view.getUint16(offset + 22, true);
+		} else if (tag === 'data') {
+			info.dataOffset = offset + 8;
+			info.dataLength = Math.min(size, buffer.byteLength - info.dataOffset);
+			break;
+		}
+		offset += 8 + size + (size % 2);
+	}
+	if (!info.sampleRate || info.dataOffset === undefined) return null;
+	return info as WavInfo;
+}
+
+// kbps for MPEG-1 Layer III, indexed by the 4 bitrate bits of the frame header
+const MP3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+
+function mp3BitrateKbps(bytes: Uint8Array): number | null {
+	let offset = 0;
+	// skip an ID3v2 tag if present
+	if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33 && bytes.length > 10) {
+		offset = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+	}
+	for (; offset + 2 < bytes.length; offset++) {
+		if (bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0) {
+			return MP3_BITRATES[bytes[offset + 2] >> 4] || null;
+		}
+	}
+	return null;
+}
+
+/**
+ * Playback length of a synthesized clip. Exact for PCM and WAV, an estimate from the
+ * first frame's bitrate for MP3.
+ */
+export function audioDurationMs(audio: ArrayBuffer, encoding: AudioEncoding, sampleRate: number): number {
+	if (encoding === 'linear16') {
+		return Math.round((audio.byteLength / 2 / sampleRate) * 1000);
+	}
+	if (encoding === 'wav') {
+		const wav = parseWav(audio);
+		if (!wav) return 0;
+		const bytesPerSecond = wav.sampleRate * wav.channels * (wav.bitsPerSample / 8);
+		return Math.round((wav.dataLength / bytesPerSecond) * 1000);
+	}
+	const kbps = mp3BitrateKbps(new Uint8Array(audio));
+	return kbps ? Math.round((audio.byteLength * 8) / kbps) : 0;
+}
+
+/** 44 byte header of a 16-bit PCM WAV holding `dataLength` bytes of samples */
+export function encodeWavHeader(dataLength: number, sampleRate: number, channels: number): ArrayBuffer {
+	const view = new DataView(new ArrayBuffer(44));
+	writeTag(view, 0, 'RIFF');
+	view.setUint32(4, 36 + dataLength, true);
+	writeTag(view, 8, 'WAVE');
+	writeTag(view, 12, 'fmt ');
+	view.setUint32(16, 16, true); // fmt chunk size
+	view.setUint16(20, 1, true); // PCM
+	view.setUint16(22, channels, true);
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * channels * 2, true); // byte rate
+	view.setUint16(32, channels * 2, true); // block align
+	view.setUint16(34, 16, true); // bits per sample
+	writeTag(view, 36, 'data');
+	view.setUint32(40, dataLength, true);
+	return view.buffer;
+}
+
+function readTag(view: DataView, offset: number): string {
+	return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+}
+
+function writeTag(view: DataView, offset: number, tag: string): void {
+	for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+}
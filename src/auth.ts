@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { USER_ID_PATTERN } from './memory';
+
+/** the client offers this subprotocol next to `token.<jwt>`, the server accepts it */
+export const WEBSOCKET_PROTOCOL = 'talk2ai';
+const TOKEN_PROTOCOL_PREFIX = 'token.';
+/** anonymous users get ids with this prefix, issued users can not have it */
+export const ANONYMOUS_USER_PREFIX = 'anon-';
+// how long after it expired an anonymous token still proves who its user was
+const ANONYMOUS_RENEWAL_SECONDS = 30 * 24 * 60 * 60;
+
+/** anything but HS256, `none` included, makes the token invalid */
+const TokenHeader = z.object({
+	alg: z.literal('HS256'),
+	typ: z.literal('JWT').optional(),
+});
+
+const TokenClaims = z.object({
+	/** user id the token was issued to */
+	sub: z.string(),
+	iat: z.number(),
+	exp: z.number(),
+});
+export type TokenClaims = z.infer<typeof TokenClaims>;
+
+/** `POST /api/token`, `user` for issued tokens, the previous `token` to keep an anonymous user */
+export const TokenRequest = z.object({
+	user: z.string().regex(USER_ID_PATTERN).optional(),
+	token: z.string().max(2000).optional(),
+});
+
+const encoder = new TextEncoder();
+
+/** an HS256 JWT for `user`, valid for `ttlSeconds` */
+export async function signToken(secret: string, user: string, ttlSeconds: number): Promise<{ token: string; claims: TokenClaims }> {
+	const iat = Math.floor(Date.now() / 1000);
+	const claims: TokenClaims = { sub: user, iat, exp: iat + ttlSeconds };
+	const payload = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+	const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(payload));
+	return { token: `${payload}.${base64url(signature)}`, claims };
+}
+
+/**
+ * The claims of a token signed with `secret`, null when it is malformed, forged or expired.
+ * `leewaySeconds` accepts tokens that expired at most that long ago.
+ */
+export async function verifyToken(secret: string, token: string, leewaySeconds = 0): Promise<TokenClaims | null> {
+	const [header, payload, signature] = token.split('.');
+	if (!header || !payload || !signature) return null;
+	try {
+		if (!TokenHeader.safeParse(decodeJson(header)).success) return null;
+		const valid = await crypto.subtle.verify(
+			'HMAC',
+			await hmacKey(secret),
+			decodeBase64url(signature),
+			encoder.encode(`${header}.${payload}`)
+		);
+		if (!valid) return null;
+		const claims = TokenClaims.safeParse(decodeJson(payload));
+		if (!claims.success || claims.data.exp + leewaySeconds < Date.now() / 1000) return null;
+		return claims.data;
+	} catch {
+		return null;
+	}
+}
+
+/** the user an anonymous token was issued to, even some time after it expired */
+export async function anonymousUser(secret: string, token: string | undefined): Promise<string | null> {
+	const claims = token ? await verifyToken(secret, token, ANONYMOUS_RENEWAL_SECONDS) : null;
+	return claims?.sub.startsWith(ANONYMOUS_USER_PREFIX) ? claims.sub : null;
+}
+
+/** `?token=` or a `token.<jwt>` subprotocol, browsers can not set headers on WebSocket upgrades */
+export function readUpgradeToken(request: Request, url: URL): string | null {
+	const protocols = request.headers.get('Sec-WebSocket-Protocol')?.split(',') ?? [];
+	const protocol = protocols.map((entry) => entry.trim()).find((entry) => entry.startsWith(TOKEN_PROTOCOL_PREFIX));
+	return protocol?.slice(TOKEN_PROTOCOL_PREFIX.length) || url.searchParams.get('token');
+}
+
+/**
+ * Origins in `ALLOWED_ORIGINS` (comma separated, `*` for any) or, when it is empty, the
+ * worker's own origin. Requests without an Origin header do not come from a browser.
+ */
+export function isAllowedOrigin(request: Request, env: Env): boolean {
+	const origin = request.headers.get('Origin');
+	if (!origin) return true;
+	const allowed = (env.ALLOWED_ORIGINS || new URL(request.url).origin).split(',').map((entry) => entry.trim());
+	return allowed.includes('*') || allowed.includes(origin);
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+	return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function base64url(data: string | ArrayBuffer): string {
+	const bytes = typeof data === 'string' ? encoder.encode(data) : new Uint8Array(data);
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+function decodeBase64url(encoded: string): Uint8Array {
+	return Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+}
+
+function decodeJson(encoded: string): unknown {
+	return JSON.parse(new TextDecoder().decode(decodeBase64url(encoded)));
+}
@@ -0,0 +1,137 @@
+import type { CoreMessage } from 'ai';
+import type { Conversation, Turn } from './conversation';
+
+// what Llama tokenizers average on English text, close enough to stay within a budget
+const CHARS_PER_TOKEN = 4;
+// role markers the chat template puts around every message
+const TOKENS_PER_MESSAGE = 4;
+// the summary takes this much of the budget, the rest is for turns kept verbatim
+const SUMMARY_MAX_TOKENS = 500;
+
+const SUMMARY_PROMPT =
+	'You summarize the earlier part of a spoken conversation between a user and an AI assistant so the assistant can continue it. ' +
+	'Keep what the user said about themselves, their goals and preferences, decisions, facts and numbers, promises made and open questions. ' +
+	'Leave out greetings and small talk. Write compact prose in the third person, in the language of the conversation, at most 300 words. ' +
+	'Reply with only the summary.';
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** the turn's text plus its tool calls, which are sent as two extra messages */
+export function turnTokens(turn: Turn): number {
+	const toolCalls = turn.toolCalls.length ? estimateTokens(JSON.stringify(turn.toolCalls)) + 2 * TOKENS_PER_MESSAGE : 0;
+	return estimateTokens(turn.text) + TOKENS_PER_MESSAGE + toolCalls;
+}
+
+export interface ContextWindowConfig {
+	ai: Ai;
+	/** tokens of history sent with every answer, summary included */
+	budget: number;
+	/** Workers AI model writing the summaries */
+	model?: string;
+}
+
+/**
+ * Keeps the history sent to the LLM within a token budget. Recent turns are sent
+ * verbatim, once they outgrow the budget the oldest are folded into a running summary
+ * that is stored with the session, so an answer late in a long conversation costs
+ * about as much as an early one. Stored turns are never changed, transcripts stay complete.
+ */
+export class ContextWindow {
+	private config: Required<ContextWindowConfig>;
+	private compacting: Promise<void> | null = null;
+
+	constructor(private conversation: Conversation, config: ContextWindowConfig) {
+		this.config = {
+			model: '@cf/meta/llama-3.2-3b-instruct',
+			...config,
+		};
+	}
+
+	/**
+	 * The summary of the earlier conversation and the newest turns that fit the budget.
+	 * Turns the summary does not cover yet are only left out while a compaction is behind.
+	 */
+	current(): { summary: string | null; messages: CoreMessage[] } {
+		const summary = this.conversation.summary?.text ?? null;
+		const turns = this.conversation.unsummarizedTurns();
+		let tokens = summary ? estimateTokens(summary) : 0;
+		let start = turns.length;
+		// newest first, the latest turn is always sent
+		while (start > 0) {
+			const next = tokens + turnTokens(turns[start - 1]);
+			if (next > this.config.budget && start < turns.length) break;
+			tokens = next;
+			start--;
+		}
+		if (start > 0) console.warn(`Context over budget, leaving out ${start} turns the summary does not cover yet`);
+		return { summary, messages: this.conversation.toModelMessages(turns.slice(start)) };
+	}
+
+	/** folds the oldest turns into the summary once the history outgrows the budget, one compaction at a time */
+	compact(): Promise<void> {
+		this.compacting ??= this.summarizeOldTurns().finally(() => (this.compacting = null));
+		return this.compacting;
+	}
+
+	private async summarizeOldTurns(): Promise<void> {
+		const turns = this.conversation.unsummarizedTurns();
+		const verbatimBudget = this.config.budget - SUMMARY_MAX_TOKENS;
+		const tokens = turns.reduce((sum, turn) => sum + turnTokens(turn), 0);
+		if (tokens <= verbatimBudget) return;
+
+		// keep half the budget verbatim so the next compaction is a while off
+		let kept = 0;
+		let start = turns.length;
+		while (start > 0 && kept + turnTokens(turns[start - 1]) <= verbatimBudget / 2) kept += turnTokens(turns[--start]);
+		// the kept turns start with a question, an answer without it confuses the model
+		while (start < turns.length - 1 && turns[start].role !== 'user') start++;
+		if (start === 0) return;
+
+		const folded = turns.slice(0, start);
+		const through = folded[folded.length - 1];
+		try {
+			const text = await this.summarize(folded);
+			// the conversation was cleared in the meantime
+			if (!this.conversation.turns.includes(through)) return;
+			this.conversation.setSummary(text, through);
+			console.log(`Summarized ${folded.length} turns into ${estimateTokens(text)} of ${tokens} tokens`);
+		} catch (error) {
+			console.error('Failed to summarize the conversation:', error);
+		}
+	}
+
+	private async summarize(turns: Turn[]): Promise<string> {
+		const transcript = turns
+			.filter((turn) => turn.text)
+			.map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`)
+			.join('\n');
+		const previous = this.conversation.summary?.text;
+		const result: any = await this.config.ai.run(this.config.model as '@cf/meta/llama-3.2-3b-instruct', {
+			messages: [
+				{ role: 'system', content: SUMMARY_PROMPT },
+				{ role: 'user', content: previous ? `Summary so far:\n${previous}\n\nThe conversation went on:\n${transcript}` : transcript },
+			],
+			max_tokens: SUMMARY_MAX_TOKENS,
+			temperature: 0.2,
+		});
+		const text = String(result?.response ?? '').trim();
+		if (!text) throw new Error('The summary model returned no text');
+		return text;
+	}
+}
+
+/** added to the system prompt in place of the turns it covers */
+export function summaryPrompt(summary: string): string {
+	return `Summary of the earlier conversation, which is no longer shown in full:\n${summary}`;
+}
+
+/** the history budget comes from `CONTEXT_TOKEN_BUDGET`, the summarizing model from `SUMMARY_MODEL` */
+export function createContextWindow(env: Env, conversation: Conversation): ContextWindow {
+	return new ContextWindow(conversation, {
+		ai: env.AI,
+		budget: Number(env.CONTEXT_TOKEN_BUDGET) || 4000,
+		...(env.SUMMARY_MODEL && { model: env.SUMMARY_MODEL }),
+	});
+}
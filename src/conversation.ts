@@ -0,0 +1,250 @@
+import type { CoreMessage } from 'ai';
+
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+}
+
+/** a tool the assistant called while preparing its answer */
+export interface ToolCallRecord {
+	id: string;
+	name: string;
+	args: unknown;
+	result: unknown;
+}
+
+/**
+ * One user utterance or one complete assistant response. An assistant turn holds
+ * every sentence of its answer that reached the user, not one entry per sentence.
+ */
+export interface Turn {
+	id: string;
+	role: 'user' | 'assistant';
+	text: string;
+	/** for assistant turns, when the first sentence was sent to the client */
+	startedAt: number;
+	/** null while an assistant turn has not delivered any text yet */
+	endedAt: number | null;
+	/** length of the synthesized audio the user heard, 0 for user turns */
+	audioMs: number;
+	/** STT confidence of a user turn, null when the provider reports none */
+	confidence: number | null;
+	/** LLM that produced an assistant turn, null for scripted lines like a greeting */
+	model: string | null;
+	usage: TokenUsage | null;
+	toolCalls: ToolCallRecord[];
+	/** the user cut the assistant off, `text` holds only what was heard */
+	interrupted: boolean;
+}
+
+/** what the turns up to `throughTurnId` were about, they are sent to the model as this summary */
+export interface ConversationSummary {
+	text: string;
+	/** the last turn the summary covers */
+	throughTurnId: string;
+	updatedAt: number;
+}
+
+type TurnRow = {
+	id: string;
+	role: string;
+	text: string;
+	started_at: number;
+	ended_at: number | null;
+	audio_ms: number;
+	confidence: number | null;
+	model: string | null;
+	prompt_tokens: number | null;
+	completion_tokens: number | null;
+	tool_calls: string;
+	interrupted: number;
+};
+
+/**
+ * The conversation of one session, kept in the Durable Object's SQLite storage so it
+ * survives reloads, reconnects and the object being evicted. `turns` is the in-memory
+ * copy the pipeline reads, every change goes through here to stay persisted.
+ */
+export class Conversation {
+	readonly turns: Turn[];
+	summary: ConversationSummary | null;
+
+	constructor(private sql: SqlStorage) {
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS turns (
+			position INTEGER PRIMARY KEY AUTOINCREMENT,
+			id TEXT NOT NULL UNIQUE,
+			role TEXT NOT NULL,
+			text TEXT NOT NULL,
+			started_at INTEGER NOT NULL,
+			ended_at INTEGER,
+			audio_ms INTEGER NOT NULL DEFAULT 0,
+			confidence REAL,
+			model TEXT,
+			prompt_tokens INTEGER,
+			completion_tokens INTEGER,
+			tool_calls TEXT NOT NULL DEFAULT '[]',
+			interrupted INTEGER NOT NULL DEFAULT 0
+		)`);
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS summary (
+			id INTEGER PRIMARY KEY CHECK (id = 1),
+			text TEXT NOT NULL,
+			through_turn_id TEXT NOT NULL,
+			updated_at INTEGER NOT NULL
+		)`);
+		this.turns = this.sql.exec<TurnRow>('SELECT * FROM turns ORDER BY position').toArray().map(fromRow);
+		const [summary] = this.sql
+			.exec<{ text: string; through_turn_id: string; updated_at: number }>('SELECT * FROM summary')
+			.toArray()
+			.map(({ text, through_turn_id, updated_at }) => ({ text, throughTurnId: through_turn_id, updatedAt: updated_at }));
+		this.summary = summary ?? null;
+	}
+
+	addUserTurn({ text, startedAt, endedAt, confidence }: Pick<Turn, 'text' | 'startedAt' | 'endedAt' | 'confidence'>): Turn {
+		const turn: Turn = { ...emptyTurn('user', startedAt), text, endedAt, confidence };
+		this.insert(turn);
+		return turn;
+	}
+
+	/** the turn is only stored once its first sentence is appended, an answer nobody heard leaves no trace */
+	startAssistantTurn(model: string | null): Turn {
+		return { ...emptyTurn('assistant', Date.now()), model };
+	}
+
+	appendText(turn: Turn, text: string, audioMs = 0): void {
+		turn.text = turn.text ? `${turn.text} ${text}` : text;
+		turn.audioMs += audioMs;
+		turn.endedAt = Date.now();
+		if (this.turns.includes(turn)) {
+			this.save(turn);
+		} else {
+			turn.startedAt = turn.endedAt;
+			this.insert(turn);
+		}
+	}
+
+	update(turn: Turn, changes: Partial<Omit<Turn, 'id' | 'role'>>): void {
+		Object.assign(turn, changes);
+		if (this.turns.includes(turn)) this.save(turn);
+	}
+
+	remove(turn: Turn): void {
+		const index = this.turns.indexOf(turn);
+		if (index === -1) return;
+		this.turns.splice(index, 1);
+		this.sql.exec('DELETE FROM turns WHERE id = ?', turn.id);
+	}
+
+	clear(): void {
+		this.turns.length = 0;
+		this.summary = null;
+		this.sql.exec('DELETE FROM turns');
+		this.sql.exec('DELETE FROM summary');
+	}
+
+	setSummary(text: string, throughTurn: Turn): void {
+		this.summary = { text, throughTurnId: throughTurn.id, updatedAt: Date.now() };
+		this.sql.exec(
+			'INSERT OR REPLACE INTO summary (id, text, through_turn_id, updated_at) VALUES (1, ?, ?, ?)',
+			text,
+			throughTurn.id,
+			this.summary.updatedAt
+		);
+	}
+
+	/** the turns after the summary, all of them when there is none */
+	unsummarizedTurns(): Turn[] {
+		const index = this.summary ? this.turns.findIndex((turn) => turn.id === this.summary?.throughTurnId) : -1;
+		return this.turns.slice(index + 1);
+	}
+
+	/** the conversation in the AI SDK message format, tool calls come before the answer they led to */
+	toModelMessages(turns: Turn[] = this.turns): CoreMessage[] {
+		return turns
+			.filter((turn) => turn.text)
+			.flatMap((turn): CoreMessage[] => {
+				if (turn.role === 'user') return [{ role: 'user', content: turn.text }];
+				if (!turn.toolCalls.length) return [{ role: 'assistant', content: turn.text }];
+				return [
+					{
+						role: 'assistant',
+						content: turn.toolCalls.map(({ id, name, args }) => ({ type: 'tool-call', toolCallId: id, toolName: name, args })),
+					},
+					{
+						role: 'tool',
+						content: turn.toolCalls.map(({ id, name, result }) => ({ type: 'tool-result', toolCallId: id, toolName: name, result })),
+					},
+					{ role: 'assistant', content: turn.text },
+				];
+			});
+	}
+
+	private insert(turn: Turn): void {
+		this.sql.exec(
+			`INSERT INTO turns (id, role, text, started_at, ended_at, audio_ms, confidence, model, prompt_tokens, completion_tokens, tool_calls,
+			interrupted) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			turn.id,
+			turn.role,
+			turn.text,
+			turn.startedAt,
+			turn.endedAt,
+			turn.audioMs,
+			turn.confidence,
+			turn.model,
+			turn.usage?.promptTokens ?? null,
+			turn.usage?.completionTokens ?? null,
+			JSON.stringify(turn.toolCalls),
+			Number(turn.interrupted)
+		);
+		this.turns.push(turn);
+	}
+
+	private save(turn: Turn): void {
+		this.sql.exec(
+			`UPDATE turns SET text = ?, started_at = ?, ended_at = ?, audio_ms = ?, confidence = ?, model = ?, prompt_tokens = ?,
+			completion_tokens = ?, tool_calls = ?, interrupted = ? WHERE id = ?`,
+			turn.text,
+			turn.startedAt,
+			turn.endedAt,
+			turn.audioMs,
+			turn.confidence,
+			turn.model,
+			turn.usage?.promptTokens ?? null,
+			turn.usage?.completionTokens ?? null,
+			JSON.stringify(turn.toolCalls),
+			Number(turn.interrupted),
+			turn.id
+		);
+	}
+}
+
+function emptyTurn(role: Turn['role'], startedAt: number): Turn {
+	return {
+		id: crypto.randomUUID(),
+		role,
+		text: '',
+		startedAt,
+		endedAt: null,
+		audioMs: 0,
+		confidence: null,
+		model: null,
+		usage: null,
+		toolCalls: [],
+		interrupted: false,
+	};
+}
+
+function fromRow(row: TurnRow): Turn {
+	return {
+		id: row.id,
+		role: row.role as Turn['role'],
+		text: row.text,
+		startedAt: row.started_at,
+		endedAt: row.ended_at,
+		audioMs: row.audio_ms,
+		confidence: row.confidence,
+		model: row.model,
+		usage: row.prompt_tokens === null ? null : { promptTokens: row.prompt_tokens, completionTokens: row.completion_tokens ?? 0 },
+		toolCalls: JSON.parse(row.tool_calls),
+		interrupted: Boolean(row.interrupted),
+	};
+}
@@ -1,4 +1,16 @@
-import { createClient, LiveTranscriptionEvents } from '@deepgram/sdk';
+import { createClient, LiveTranscriptionEvents, LiveTTSEvents } from '@deepgram/sdk';
+import { audioDurationMs } from './audio';
+import { runSynthesis, TTSError } from './text-to-speech';
+import { base64ToArrayBuffer } from './utils';
+import type { SpeechToTextListeners, SpeechToTextProvider } from './speech-to-text';
+import type { Voice } from './voices';
+import type {
+	StreamingTextToSpeechProvider,
+	StreamingTTSListeners,
+	SynthesizedAudio,
+	SynthesizeOptions,
+	TextToSpeechProvider,
+} from './text-to-speech';
 
 export interface DeepgramTTSConfig {
 	apiKey: string;
@@ -10,18 +22,28 @@ export interface DeepgramTTSConfig {
 export interface DeepgramSTTConfig {
 	apiKey: string;
 	model?: string;
+	/** `multi` transcribes and tags every language Nova-3 knows */
 	language?: string;
+	/** ms of silence before Deepgram marks a segment `speech_final`, false disables endpointing */
+	endpointing?: number | false;
+	/** ms without new words before Deepgram sends `UtteranceEnd`, 1000 at minimum */
+	utteranceEndMs?: number;
 }
 
-export class DeepgramTTS {
+export class DeepgramTTS implements TextToSpeechProvider, StreamingTextToSpeechProvider {
+	readonly name = 'deepgram';
 	private client: any;
 	private connection: any;
 	private apiKey: string;
 	private config: DeepgramTTSConfig;
 	private isConnected: boolean = false;
-	private onAudioCallback?: (audioBase64: string) => void;
-	private onErrorCallback?: (error: Error) => void;
-	private useRestAPI: boolean = true; // Use REST API instead of WebSocket for now
+	private isStreaming: boolean = false;
+	private listeners?: StreamingTTSListeners;
+	// messages sent while the streaming socket is (re)connecting
+	private pendingMessages: Array<() => void> = [];
+	private isReconnecting: boolean = false;
+	// Clear messages Deepgram has not confirmed yet, audio and flushes before the confirmation belong to cleared text
+	private pendingClears = 0;
 
 	constructor(config: DeepgramTTSConfig) {
 		this.config = {
@@ -34,185 +56,247 @@ export class DeepgramTTS {
 		this.client = createClient(this.apiKey);
 	}
 
-	async connect(onAudio: (audioBase64: string) => void, onError?: (error: Error) => void): Promise<boolean> {
+	get encoding() {
+		return 'linear16' as const;
+	}
+
+	get sampleRate() {
+		return this.config.sampleRate!;
+	}
+
+	async connect(): Promise<boolean> {
+		// For REST API, just verify the connection works
+		console.log('Testing Deepgram REST API connection...');
 		try {
-			this.onAudioCallback = onAudio;
-			this.onErrorCallback = onError;
-
-			if (this.useRestAPI) {
-				// For REST API, just verify the connection works
-				console.log('Testing Deepgram REST API connection...');
-				try {
-					await this.client.speak.request(
-						{ text: 'test' },
-						{
-							model: this.config.model,
-							encoding: this.config.encoding,
-							sample_rate: this.config.sampleRate,
-						}
-					);
-					console.log('Deepgram REST API connection successful');
-					this.isConnected = true;
-					return true;
-				} catch (error) {
-					console.error('Deepgram REST API test failed:', error);
-					throw error;
-				}
-			} else {
-				// WebSocket implementation (for future use)
-				this.connection = this.client.speak.live({
+			await this.client.speak.request(
+				{ text: 'test' },
+				{
 					model: this.config.model,
 					encoding: this.config.encoding,
 					sample_rate: this.config.sampleRate,
-				});
+				}
+			);
+			console.log('Deepgram REST API connection successful');
+			this.isConnected = true;
+			return true;
+		} catch (error) {
+			console.error('Failed to connect to Deepgram TTS:', error);
+			return false;
+		}
+	}
 
-				// Set up event handlers
-				this.connection.on('open', () => {
+	/**
+	 * Opens the `speak` WebSocket. Audio for everything sent with `sendText` arrives
+	 * as headerless linear16 chunks once `flush` is called or Deepgram's buffer fills.
+	 */
+	async connectStream(listeners: StreamingTTSListeners): Promise<boolean> {
+		this.listeners = listeners;
+		this.isStreaming = true;
+		try {
+			console.log('Connecting to Deepgram TTS WebSocket...');
+			// the speak socket only accepts raw encodings, there is no container option
+			this.connection = this.client.speak.live({
+				model: this.config.model,
+				encoding: 'linear16',
+				sample_rate: this.config.sampleRate,
+			});
+			this.pendingClears = 0;
+
+			const connectionPromise = new Promise<boolean>((resolve, reject) => {
+				const timeout = setTimeout(() => reject(new Error('Connection timeout')), 5000);
+				this.connection.on(LiveTTSEvents.Open, () => {
+					clearTimeout(timeout);
 					console.log('Deepgram TTS connection opened');
 					this.isConnected = true;
+					this.pendingMessages.splice(0).forEach((send) => send());
+					resolve(true);
 				});
-
-				this.connection.on('binaryData', (data: ArrayBuffer) => {
-					const audioBase64 = this.arrayBufferToBase64(data);
-					if (this.onAudioCallback) {
-						this.onAudioCallback(audioBase64);
-					}
+				this.connection.on(LiveTTSEvents.Error, (error: any) => {
+					clearTimeout(timeout);
+					reject(new Error(`Deepgram TTS error: ${error.message || error}`));
 				});
+			});
 
-				this.connection.on('close', () => {
-					console.log('Deepgram TTS connection closed');
-					this.isConnected = false;
-				});
+			this.connection.on(LiveTTSEvents.Audio, (data: Uint8Array) => {
+				if (this.pendingClears) return;
+				const chunk = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+				this.listeners?.onAudio(chunk);
+			});
 
-				this.connection.on('error', (error: any) => {
-					console.error('Deepgram TTS error:', error);
-					if (this.onErrorCallback) {
-						this.onErrorCallback(new Error(`Deepgram TTS error: ${error.message || error}`));
-					}
-				});
+			this.connection.on(LiveTTSEvents.Flushed, () => {
+				if (this.pendingClears) return;
+				this.listeners?.onFlushed?.();
+			});
 
-				await new Promise((resolve) => setTimeout(resolve, 100));
-				return this.isConnected;
-			}
+			// the SDK has no event of its own for `Cleared`
+			this.connection.on(LiveTTSEvents.Unhandled, (message: any) => {
+				if (message?.type === 'Cleared') this.pendingClears = Math.max(0, this.pendingClears - 1);
+			});
+
+			this.connection.on(LiveTTSEvents.Warning, (warning: any) => {
+				console.warn('Deepgram TTS warning:', warning);
+			});
+
+			this.connection.on(LiveTTSEvents.Close, () => {
+				// Deepgram closes idle sockets, the next sendText reconnects lazily
+				console.log('Deepgram TTS connection closed');
+				this.isConnected = false;
+				// a socket that closed has nothing left to send, the next one starts clean
+				this.pendingClears = 0;
+			});
+
+			this.connection.on(LiveTTSEvents.Error, (error: any) => {
+				console.error('Deepgram TTS error:', error);
+				this.listeners?.onError?.(new Error(`Deepgram TTS error: ${error.message || error}`));
+			});
+
+			return await connectionPromise;
 		} catch (error) {
-			console.error('Failed to connect to Deepgram TTS:', error);
-			if (this.onErrorCallback) {
-				this.onErrorCallback(error as Error);
-			}
+			console.error('Failed to connect to Deepgram TTS WebSocket:', error);
+			this.listeners?.onError?.(error as Error);
 			return false;
 		}
 	}
 
-	async synthesize(text: string): Promise<void> {
-		if (this.useRestAPI) {
-			// Use REST API for TTS
-			try {
-				console.log('Synthesizing text with Deepgram:', text.substring(0, 50));
-				const result = await this.client.speak.request(
-					{ text },
-					{
-						model: this.config.model,
-						encoding: this.config.encoding,
-						sample_rate: this.config.sampleRate,
-					}
-				);
+	sendText(text: string): void {
+		this.sendStreamMessage(() => this.connection.sendText(text));
+	}
 
-				console.log('Deepgram TTS result type:', typeof result);
-				console.log('Deepgram TTS result keys:', result ? Object.keys(result) : 'null');
+	/**
+	 * Asks Deepgram to render everything sent so far, call at sentence boundaries.
+	 */
+	flush(): void {
+		this.sendStreamMessage(() => this.connection.flush());
+	}
 
-				// The Deepgram SDK returns an object with a result property that contains the actual response
-				let audioBase64: string | null = null;
-				let actualResult = result;
+	/**
+	 * Drops buffered text and audio that has not been sent yet, e.g. when the user interrupts.
+	 * Audio and `Flushed` events still in flight are dropped until Deepgram answers `Cleared`.
+	 */
+	clear(): void {
+		this.pendingMessages.length = 0;
+		if (this.isConnected && this.connection) {
+			this.connection.clear();
+			this.pendingClears++;
+		}
+	}
 
-				// Check if the result has a result property (SDK wrapper)
-				if (result && result.result) {
-					console.log('Found result.result, using that as actual result');
-					actualResult = result.result;
-				}
+	private sendStreamMessage(send: () => void): void {
+		if (!this.isStreaming) {
+			throw new TTSError('provider_error', this.name, 'Deepgram TTS stream is not connected');
+		}
+		if (this.isConnected && this.connection) {
+			try {
+				send();
+			} catch (error) {
+				console.error('Error sending to Deepgram TTS:', error);
+				this.listeners?.onError?.(error as Error);
+			}
+			return;
+		}
+		this.pendingMessages.push(send);
+		if (this.isReconnecting || !this.listeners) return;
+		this.isReconnecting = true;
+		this.connectStream(this.listeners).then((connected) => {
+			this.isReconnecting = false;
+			if (connected) return;
+			// nothing will send the queued text, the next message tries again
+			this.pendingMessages.length = 0;
+			this.listeners?.onUnavailable?.();
+		});
+	}
 
-				console.log('Actual result type:', typeof actualResult);
-				console.log('Actual result keys:', actualResult && typeof actualResult === 'object' ? Object.keys(actualResult) : 'not an object');
-
-				if (actualResult instanceof ArrayBuffer) {
-					// Convert ArrayBuffer to base64
-					console.log('Processing ArrayBuffer result');
-					audioBase64 = this.arrayBufferToBase64(actualResult);
-				} else if (actualResult && typeof actualResult === 'object' && actualResult.audio) {
-					// If it has an audio property, use that
-					console.log('Found audio property in result');
-					if (actualResult.audio instanceof ArrayBuffer) {
-						audioBase64 = this.arrayBufferToBase64(actualResult.audio);
-					} else if (typeof actualResult.audio === 'string') {
-						audioBase64 = actualResult.audio;
-					}
-				} else if (actualResult && actualResult.getReader) {
-					// If it's a ReadableStream, read it
-					console.log('Processing ReadableStream result');
-					const reader = actualResult.getReader();
-					const chunks: Uint8Array[] = [];
-					let done = false;
-
-					while (!done) {
-						const { value, done: streamDone } = await reader.read();
-						done = streamDone;
-						if (value) {
-							chunks.push(value);
-						}
-					}
+	synthesize(text: string, options: SynthesizeOptions = {}): Promise<SynthesizedAudio> {
+		return runSynthesis(this.name, options, () => this.requestAudio(text));
+	}
 
-					// Combine chunks into a single ArrayBuffer
-					const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-					const combinedArray = new Uint8Array(totalLength);
-					let offset = 0;
-					for (const chunk of chunks) {
-						combinedArray.set(chunk, offset);
-						offset += chunk.length;
-					}
+	/** the model is read per request, the `speak` socket only picks it up when it reconnects */
+	setVoice(voice: Voice): boolean {
+		if (voice.provider !== this.name) return false;
+		this.config.model = voice.id;
+		return true;
+	}
 
-					audioBase64 = this.arrayBufferToBase64(combinedArray.buffer);
-				} else if (actualResult && actualResult.arrayBuffer) {
-					// If it's a Response object, get the arrayBuffer
-					console.log('Processing Response object with arrayBuffer method');
-					const buffer = await actualResult.arrayBuffer();
-					audioBase64 = this.arrayBufferToBase64(buffer);
-				}
+	private async requestAudio(text: string): Promise<SynthesizedAudio> {
+		console.log('Synthesizing text with Deepgram:', text.substring(0, 50));
+		const result = await this.client.speak.request(
+			{ text },
+			{
+				model: this.config.model,
+				encoding: this.config.encoding,
+				sample_rate: this.config.sampleRate,
+			}
+		);
 
-				console.log('Processed audio base64 length:', audioBase64?.length || 'no audio processed');
+		// The Deepgram SDK returns an object with a result property that contains the actual response
+		let audio: ArrayBuffer | null = null;
+		let actualResult = result;
 
-				if (audioBase64 && this.onAudioCallback) {
-					console.log('Calling audio callback with base64 audio');
-					this.onAudioCallback(audioBase64);
-				} else {
-					console.error('No audio data processed from Deepgram response or no callback');
-				}
-			} catch (error) {
-				console.error('Error with Deepgram REST TTS:', error);
-				if (this.onErrorCallback) {
-					this.onErrorCallback(error as Error);
-				}
+		// Check if the result has a result property (SDK wrapper)
+		if (result && result.result) {
+			actualResult = result.result;
+		}
+
+		if (actualResult instanceof ArrayBuffer) {
+			audio = actualResult;
+		} else if (actualResult && typeof actualResult === 'object' && actualResult.audio) {
+			// If it has an audio property, use that
+			if (actualResult.audio instanceof ArrayBuffer) {
+				audio = actualResult.audio;
+			} else if (typeof actualResult.audio === 'string') {
+				audio = base64ToArrayBuffer(actualResult.audio);
 			}
-		} else {
-			// WebSocket implementation (not working yet)
-			if (!this.isConnected || !this.connection) {
-				throw new Error('Deepgram TTS connection not established');
+		} else if (actualResult && actualResult.getReader) {
+			// If it's a ReadableStream, read it
+			const reader = actualResult.getReader();
+			const chunks: Uint8Array[] = [];
+			let done = false;
+
+			while (!done) {
+				const { value, done: streamDone } = await reader.read();
+				done = streamDone;
+				if (value) {
+					chunks.push(value);
+				}
 			}
 
-			try {
-				// Send text to be synthesized
-				this.connection.send(text);
-			} catch (error) {
-				console.error('Error sending text to Deepgram TTS:', error);
-				if (this.onErrorCallback) {
-					this.onErrorCallback(error as Error);
-				}
+			// Combine chunks into a single ArrayBuffer
+			const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+			const combinedArray = new Uint8Array(totalLength);
+			let offset = 0;
+			for (const chunk of chunks) {
+				combinedArray.set(chunk, offset);
+				offset += chunk.length;
 			}
+
+			audio = combinedArray.buffer;
+		} else if (actualResult && actualResult.arrayBuffer) {
+			// If it's a Response object, get the arrayBuffer
+			audio = await actualResult.arrayBuffer();
+		}
+
+		if (!audio) {
+			throw new TTSError('empty_audio', this.name, 'No audio data processed from Deepgram response');
 		}
+
+		console.log('Deepgram TTS audio length:', audio.byteLength);
+		// linear16 over REST comes wrapped in a WAV container by default
+		const encoding = this.config.encoding === 'mp3' ? 'mp3' : 'wav';
+		return {
+			audio,
+			encoding,
+			sampleRate: this.config.sampleRate!,
+			durationMs: audioDurationMs(audio, encoding, this.config.sampleRate!),
+		};
 	}
 
 	disconnect(): void {
+		this.isStreaming = false;
+		this.listeners = undefined;
+		this.pendingMessages.length = 0;
 		if (this.connection) {
 			try {
-				this.connection.close();
+				this.connection.requestClose();
 			} catch (error) {
 				console.error('Error closing Deepgram TTS connection:', error);
 			}
@@ -220,39 +304,31 @@ export class DeepgramTTS {
 		}
 		this.isConnected = false;
 	}
-
-	private arrayBufferToBase64(buffer: ArrayBuffer): string {
-		const bytes = new Uint8Array(buffer);
-		let binary = '';
-		for (let i = 0; i < bytes.byteLength; i++) {
-			binary += String.fromCharCode(bytes[i]);
-		}
-		return btoa(binary);
-	}
 }
 
-export class DeepgramSTT {
+export class DeepgramSTT implements SpeechToTextProvider {
+	readonly name = 'deepgram';
 	private client: any;
 	private config: DeepgramSTTConfig;
 	private connection: any;
 	private isConnected: boolean = false;
 	private isReconnecting: boolean = false;
-	private onTranscriptCallback?: (transcript: string, isFinal: boolean) => void;
-	private onErrorCallback?: (error: Error) => void;
+	private listeners?: SpeechToTextListeners;
 
 	constructor(config: DeepgramSTTConfig) {
 		this.config = {
 			model: 'nova-3-general',
 			language: 'en-US',
+			endpointing: 300,
+			utteranceEndMs: 1000,
 			...config,
 		};
 		this.client = createClient(this.config.apiKey);
 	}
 
-	async connect(onTranscript: (transcript: string, isFinal: boolean) => void, onError?: (error: Error) => void): Promise<boolean> {
+	async connect(listeners: SpeechToTextListeners): Promise<boolean> {
 		try {
-			this.onTranscriptCallback = onTranscript;
-			this.onErrorCallback = onError;
+			this.listeners = listeners;
 
 			console.log('Connecting to Deepgram STT WebSocket...');
 			
@@ -264,6 +340,8 @@ export class DeepgramSTT {
 				smart_format: true,
 				interim_results: true,
 				vad_events: true,
+				endpointing: this.config.endpointing,
+				utterance_end_ms: this.config.utteranceEndMs,
 				encoding: 'linear16',
 				sample_rate: 16000,
 				channels: 1,
@@ -306,29 +384,42 @@ export class DeepgramSTT {
 				
 				// Extract transcript from the response
 				const transcript = data?.channel?.alternatives?.[0]?.transcript || '';
+				const confidence = data?.channel?.alternatives?.[0]?.confidence;
 				const isFinal = data?.is_final || false;
-				
-				if (transcript && this.onTranscriptCallback) {
-					this.onTranscriptCallback(transcript, isFinal);
+				const speechFinal = data?.speech_final || false;
+				// in multi mode the segment lists its languages, most used first
+				const language: string | undefined =
+					this.config.language === 'multi' && transcript ? data?.channel?.alternatives?.[0]?.languages?.[0] : undefined;
+
+				// speech_final can arrive on an empty segment and still ends the utterance
+				if ((transcript || speechFinal) && this.listeners) {
+					this.listeners.onTranscript({ transcript, isFinal, speechFinal, confidence, language });
 				}
 			});
 
+			// sent when no words were recognized for utteranceEndMs, even if endpointing missed the pause
+			this.connection.on(LiveTranscriptionEvents.UtteranceEnd, () => {
+				this.listeners?.onUtteranceEnd?.();
+			});
+
+			this.connection.on(LiveTranscriptionEvents.SpeechStarted, () => {
+				this.listeners?.onSpeechStarted?.();
+			});
+
 			this.connection.on(LiveTranscriptionEvents.Close, () => {
 				console.log('Deepgram STT connection closed, attempting to reconnect...');
 				this.isConnected = false;
 				// Automatically reconnect after a short delay
 				setTimeout(() => {
-					if (this.onTranscriptCallback) {
-						this.connect(this.onTranscriptCallback, this.onErrorCallback);
+					if (this.listeners) {
+						this.connect(this.listeners);
 					}
 				}, 100);
 			});
 
 			this.connection.on(LiveTranscriptionEvents.Error, (error: any) => {
 				console.error('Deepgram STT error:', error);
-				if (this.onErrorCallback) {
-					this.onErrorCallback(new Error(`Deepgram STT error: ${error.message || error}`));
-				}
+				this.listeners?.onError?.(new Error(`Deepgram STT error: ${error.message || error}`));
 			});
 
 			// Add additional event listeners for debugging
@@ -340,9 +431,7 @@ export class DeepgramSTT {
 			return await connectionPromise;
 		} catch (error) {
 			console.error('Failed to connect to Deepgram STT:', error);
-			if (this.onErrorCallback) {
-				this.onErrorCallback(error as Error);
-			}
+			this.listeners?.onError?.(error as Error);
 			return false;
 		}
 	}
@@ -351,9 +440,9 @@ export class DeepgramSTT {
 		if (!this.isConnected || !this.connection) {
 			console.warn('Deepgram STT connection not established, attempting to reconnect and queue audio...');
 			// Try to reconnect if we have the callback
-			if (this.onTranscriptCallback && !this.isReconnecting) {
+			if (this.listeners && !this.isReconnecting) {
 				this.isReconnecting = true;
-				this.connect(this.onTranscriptCallback, this.onErrorCallback).then((connected) => {
+				this.connect(this.listeners).then((connected) => {
 					this.isReconnecting = false;
 					if (connected) {
 						// Retry sending the audio after successful reconnection
@@ -369,13 +458,13 @@ export class DeepgramSTT {
 			this.connection.send(audioBuffer);
 		} catch (error) {
 			console.error('Error sending audio to Deepgram STT:', error);
-			if (this.onErrorCallback) {
-				this.onErrorCallback(error as Error);
-			}
+			this.listeners?.onError?.(error as Error);
 		}
 	}
 
 	disconnect(): void {
+		// drop listeners first so the Close handler does not schedule a reconnect
+		this.listeners = undefined;
 		if (this.connection) {
 			try {
 				this.connection.finish();
@@ -1,9 +1,45 @@
 import { smoothStream, streamText } from 'ai';
-import { bufferText } from './utils';
+import { z } from 'zod';
+import { bufferText, streamSentences, textToStream } from './utils';
 import { DurableObject } from 'cloudflare:workers';
 import { createWorkersAI } from 'workers-ai-provider';
-import PQueue from 'p-queue';
-import { DeepgramTTS, DeepgramSTT } from './deepgram-tts';
+import { audioDurationMs, encodeWavHeader } from './audio';
+import { AudioFrameType, encodeAudioFrame } from './audio-frame';
+import { OrderedTaskQueue } from './ordered-queue';
+import { PlaybackTracker } from './playback';
+import { AssembledTurn, TurnAssembler } from './turn-assembler';
+import { createTurnDetector } from './turn-detection';
+import { connectMcpServers, createToolRegistry, MAX_TOOL_STEPS } from './tools';
+import {
+	ANONYMOUS_USER_PREFIX,
+	anonymousUser,
+	isAllowedOrigin,
+	readUpgradeToken,
+	signToken,
+	TokenRequest,
+	verifyToken,
+	WEBSOCKET_PROTOCOL,
+} from './auth';
+import { parseClientMessage, PROTOCOL_VERSION, sendMessage, ServerMessage } from './protocol';
+import { Conversation, Turn } from './conversation';
+import { createContextWindow, summaryPrompt } from './context-window';
+import { AUTO_LANGUAGE, LANGUAGE_PATTERN, languageName, languagePrompt, primaryLanguage } from './language';
+import { createKnowledgeRetriever, getKnowledgeBase, knowledgePrompt, readKnowledgeUpload } from './knowledge-base';
+import { clientIp, createRateLimits, limitRequest, RateLimitExceeded } from './rate-limit';
+import { createRecorder, recordingKey } from './recorder';
+import { createSessionMemory, getUserMemory, memoryPrompt, SessionMemory, USER_ID_PATTERN } from './memory';
+import { DEFAULT_PERSONA, getPersonaStore, loadPersona, Persona, PERSONA_NAME_PATTERN, renderPrompt, ResolvedPersona } from './persona';
+import { createSpeechToText, SpeechToTextListeners, SpeechToTextProvider } from './speech-to-text';
+import {
+	createStreamingTextToSpeech,
+	createTextToSpeech,
+	StreamingTextToSpeechProvider,
+	SynthesizedAudio,
+	TextToSpeechProvider,
+	TTSError,
+} from './text-to-speech';
+import { exportTranscript, isTranscriptFormat, TranscriptExport, TranscriptFormat } from './transcript';
+import { canSpeakVoice, findVoice, isVoiceAvailable, synthesizeVoiceSample, Voice, VOICES, voicesForLanguage } from './voices';
 
 /* Todo
  * ✅ 1. WS with frontend
@@ -14,182 +50,955 @@ import { DeepgramTTS, DeepgramSTT } from './deepgram-tts';
  * ✅ 6. Send audio to frontend
  */
 
-export class MyDurableObject extends DurableObject {
+export { KnowledgeBase } from './knowledge-base';
+export { PersonaStore } from './persona';
+export { UserMemory } from './memory';
+export { RateLimiter } from './rate-limit';
+
+export class VoiceSession extends DurableObject {
 	env: Env;
-	msgHistory: Array<Object>;
-	deepgramTTS: DeepgramTTS;
-	deepgramSTT: DeepgramSTT;
+	// one Durable Object per session, its conversation outlives any single WebSocket
+	conversation: Conversation;
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
 		this.env = env;
-		this.msgHistory = [];
-		this.deepgramTTS = new DeepgramTTS({
-			apiKey: env.DEEPGRAM,
-			model: 'aura-arcas-en' // male voice as mentioned in CLAUDE.md
-		});
-		this.deepgramSTT = new DeepgramSTT({
-			apiKey: env.DEEPGRAM,
-			model: 'nova-3-general', // Using nova-3-general as specified in parameters
-			language: 'en-US'
-		});
+		this.conversation = new Conversation(ctx.storage.sql);
+	}
+	/** the session's transcript, null when nothing was said yet or `user` is given and does not own the session */
+	async exportTranscript(sessionId: string, format: TranscriptFormat, user: string | null): Promise<TranscriptExport | null> {
+		if (user !== null && (await this.ctx.storage.get<string>('user')) !== user) return null;
+		if (!this.conversation.turns.length) return null;
+		return exportTranscript(sessionId, this.conversation.turns, format);
+	}
+	/** hands the turns the user's memory has not looked at yet to it */
+	private async extractMemories(memory: SessionMemory): Promise<void> {
+		const through = await this.ctx.storage.get<string>('memory_extracted_through');
+		const turns = this.conversation.turns.slice(this.conversation.turns.findIndex((turn) => turn.id === through) + 1);
+		if (!turns.length) return;
+		await this.ctx.storage.put('memory_extracted_through', turns[turns.length - 1].id);
+		await memory.extract(turns);
 	}
-	async fetch(_request: any) {
+	async fetch(request: Request) {
+		const { searchParams } = new URL(request.url);
+		// a session belongs to the user who started it, nobody else may resume it
+		const user = searchParams.get('user');
+		const owner = await this.ctx.storage.get<string>('user');
+		if (owner && owner !== user) {
+			return new Response('Session belongs to another user', { status: 403 });
+		}
+		if (!owner && user) await this.ctx.storage.put('user', user);
+
 		// set up ws pipeline
 		const webSocketPair = new WebSocketPair();
 		const [socket, ws] = Object.values(webSocketPair);
 
 		ws.accept();
+		// a client that sent its token as a subprotocol expects one to be accepted
+		const protocols = request.headers.get('Sec-WebSocket-Protocol')?.split(',') ?? [];
+		const headers = protocols.some((protocol) => protocol.trim() === WEBSOCKET_PROTOCOL)
+			? { 'Sec-WebSocket-Protocol': WEBSOCKET_PROTOCOL }
+			: undefined;
+		// announce the protocol version and session, the client answers with its own `hello`
+		sendMessage(ws, { type: 'hello', version: PROTOCOL_VERSION, sessionId: searchParams.get('session') ?? '' });
+
+		// sessions per user, sockets per IP, audio per minute and answers per hour, see RATE_LIMITING
+		const limits = createRateLimits(this.env, { user, ip: clientIp(request) });
+		let rateLimited = false;
+		// the client is told which limit it ran into before the socket closes
+		const rejectRateLimited = ({ message, retryAfterMs }: RateLimitExceeded) => {
+			if (rateLimited) return;
+			rateLimited = true;
+			console.warn('Rate limited:', message);
+			limits?.close();
+			sendMessage(ws, { type: 'error', code: 'rate_limited', message, ...(retryAfterMs !== null && { retryAfterMs }) });
+			ws.close(1008, 'Rate limited');
+		};
+		const refused = await limits?.open();
+		if (refused) {
+			rejectRateLimited(refused);
+			return new Response(null, { status: 101, webSocket: socket, headers });
+		}
+		// a resumed session shows the conversation so far
+		if (this.conversation.turns.length) {
+			sendMessage(ws, {
+				type: 'history',
+				turns: this.conversation.turns.map(({ id, role, text, startedAt, endedAt, interrupted }) => ({
+					id,
+					role,
+					text,
+					startedAt,
+					endedAt,
+					interrupted,
+				})),
+			});
+		}
+		// ?persona= picks the assistant, otherwise the session keeps the one it used last
+		const personaName =
+			searchParams.get('persona') || (await this.ctx.storage.get<string>('persona')) || this.env.PERSONA || DEFAULT_PERSONA.name;
+		let persona: ResolvedPersona = (await loadPersona(this.env, personaName)) ?? DEFAULT_PERSONA;
+		if (persona.name !== personaName) {
+			sendMessage(ws, { type: 'error', code: 'unknown_persona', message: `Unknown persona "${personaName}", using the default` });
+		} else if (searchParams.has('persona')) {
+			await this.ctx.storage.put('persona', personaName);
+		}
+		sendMessage(ws, { type: 'persona', name: persona.name, description: persona.description });
+		// a voice the user picked with `configure` wins over the persona's until another persona is configured
+		let voice: Voice | null = findVoice((await this.ctx.storage.get<string>('voice')) ?? '');
+		sendMessage(ws, { type: 'voice', voice: voice?.id ?? persona.voice });
+		// ?language= (or `configure`) overrides the persona's language until another persona is configured,
+		// `auto` follows whatever language the user speaks
+		const requestedLanguage = searchParams.get('language');
+		if (requestedLanguage && LANGUAGE_PATTERN.test(requestedLanguage)) await this.ctx.storage.put('language', requestedLanguage);
+		let language = (await this.ctx.storage.get<string>('language')) ?? persona.language;
+		// the language the user was last heard speaking while auto-detecting
+		let detectedLanguage: string | null = null;
+		// the language answers are given in, null until auto-detection heard the user
+		const replyLanguage = () => (language === AUTO_LANGUAGE ? detectedLanguage : language);
+		sendMessage(ws, { type: 'language', language, detected: null });
+		// picked to speak the reply language when neither the configured nor the persona's voice does
+		let languageVoice: Voice | null = null;
 		const workersai = createWorkersAI({ binding: this.env.AI });
-		const queue = new PQueue({ concurrency: 1 });
+		// opt-in with RECORDING=on or ?record=on
+		const recorder = createRecorder(this.env, searchParams.get('session') ?? '', searchParams.get('record'));
+		// synthesize several sentences at once, but always send their audio in sentence order
+		// trims assistant turns to what the client reports as heard
+		const playback = new PlaybackTracker(this.conversation);
+		const queue = new OrderedTaskQueue<{
+			seq: number;
+			turn: Turn;
+			sentence: string;
+			audio?: SynthesizedAudio;
+			messages: Array<ServerMessage | ArrayBuffer>;
+		}>(Number(this.env.TTS_CONCURRENCY) || 3, ({ seq, turn, sentence, audio, messages }) => {
+			// only what actually went out to the client ends up in the conversation
+			playback.record(seq, turn, sentence, audio?.durationMs);
+			if (audio) recorder?.addAssistantAudio(seq, audio.audio, audio.encoding, audio.sampleRate);
+			messages.forEach((message) => (message instanceof ArrayBuffer ? ws.send(message) : sendMessage(ws, message)));
+		});
+		// STT and TTS vendors can be picked per session with ?stt=deepgram|workers-ai&tts=deepgram,workers-ai&tts_mode=rest|stream,
+		// the persona decides how they listen and sound. Both are replaced when another persona is configured
+		let stt: SpeechToTextProvider;
+		let tts: TextToSpeechProvider;
+		// Prefer streaming TTS when configured, per-sentence synthesis is the fallback
+		let ttsStream: StreamingTextToSpeechProvider | null = null;
+		// the session's streaming provider even while it is not used, a voice of another vendor is spoken per sentence
+		let streamProvider: StreamingTextToSpeechProvider | null = null;
+		// TTS has to reconnect before it speaks with a newly configured voice
+		let voiceChanged = false;
+		// tools the assistant may call, ?tools=get_datetime,calculate or ?tools=none
+		const tools = createToolRegistry(this.env, searchParams.get('tools'));
+		// plus the allowed tools of the MCP servers in MCP_SERVERS, narrowed with ?mcp=. Connecting must not hold up
+		// the socket's listeners, the tools become available once their servers answered
+		const mcp = connectMcpServers(this.env, searchParams.get('mcp'));
+		mcp.then((connection) => tools.register(...connection.tools));
+		// what the assistant knows about the user (?user=) from earlier sessions, ?memory=off skips it
+		const memory = createSessionMemory(this.env, user, searchParams.get('memory'));
+		if (memory) {
+			await memory.load();
+			tools.register(...memory.tools);
+		}
+		// documents from /api/knowledge are looked up for every question, ?kb=off skips that
+		const knowledge = createKnowledgeRetriever(this.env, searchParams.get('kb'));
+		// long conversations are sent as a summary plus the latest turns, CONTEXT_TOKEN_BUDGET tokens at most
+		const context = createContextWindow(this.env, this.conversation);
+		// reported by the client in its `hello`
+		let timezone = 'UTC';
+		// aborts the LLM stream and syntheses of the response currently being spoken
+		let turnAbort: AbortController | null = null;
+		let respondingTurn: Turn | null = null;
 
-		// Initialize Deepgram TTS connection
-		const deepgramTTSConnected = await this.deepgramTTS.connect(
-			(audioBase64: string) => {
-				// Audio callback - this will be handled in the queue processing
-			},
-			(error: Error) => {
-				console.error('Deepgram TTS error:', error);
+		// Deepgram renders flushes in order, so the n-th Flushed event ends the audio of the n-th sentence
+		let flushedSeq = 0;
+		let sentenceSeq = 0;
+		const flushingSentences: Array<{ seq: number; turn: Turn; sentence: string }> = [];
+
+		const connectTTS = async () => {
+			const personaVoice = { voice: persona.voice, language: replyLanguage() ?? undefined };
+			const configuredVoice = languageVoice ?? voice;
+			tts = createTextToSpeech(this.env, searchParams.get('tts'), personaVoice);
+			streamProvider = createStreamingTextToSpeech(this.env, searchParams.get('tts_mode'), personaVoice);
+			if (configuredVoice) tts.setVoice(configuredVoice);
+			// the stream only speaks its own vendor's voices, per-sentence synthesis speaks the others
+			const streamingTTS = streamProvider && (!configuredVoice || streamProvider.setVoice(configuredVoice)) ? streamProvider : null;
+			const streamConnected = await streamingTTS?.connectStream({
+				onAudio: (chunk: ArrayBuffer) => {
+					playback.addAudio(flushedSeq, audioDurationMs(chunk, streamingTTS.encoding, streamingTTS.sampleRate));
+					recorder?.addAssistantAudio(flushedSeq, chunk, streamingTTS.encoding, streamingTTS.sampleRate);
+					// forward audio as soon as Deepgram renders it to cut time-to-first-audio
+					ws.send(
+						encodeAudioFrame({
+							type: AudioFrameType.Chunk,
+							seq: flushedSeq,
+							encoding: streamingTTS.encoding,
+							sampleRate: streamingTTS.sampleRate,
+							audio: chunk,
+						})
+					);
+				},
+				onFlushed: () => {
+					flushedSeq++;
+					const flushed = flushingSentences.shift();
+					if (flushed) playback.record(flushed.seq, flushed.turn, flushed.sentence);
+				},
+				onError: (error: Error) => {
+					console.error(`Streaming TTS (${streamingTTS.name}) error:`, error);
+				},
+				onUnavailable: () => fallBackFromStream(streamingTTS),
+			});
+			ttsStream = streamConnected ? streamingTTS : null;
+			if (!ttsStream) streamingTTS?.disconnect();
+
+			// Initialize TTS connection
+			const ttsConnected = ttsStream ? true : await tts.connect();
+
+			if (!ttsConnected) {
+				console.error(`Failed to connect to TTS (${tts.name})`);
+			} else {
+				console.log(
+					`TTS (${ttsStream ? `${ttsStream.name}, streaming` : tts.name}, ${configuredVoice?.id ?? persona.voice}) connected successfully`
+				);
 			}
-		);
+		};
+		await connectTTS();
 
-		if (!deepgramTTSConnected) {
-			console.error('Failed to connect to Deepgram TTS');
-		} else {
-			console.log('Deepgram TTS connected successfully');
-		}
+		// per-sentence TTS: synthesize in parallel, delivered in order by the queue. Sentences share their seq
+		// with streamed ones, those the stream dropped already had their text sent and only get audio
+		const synthesizeSentence = (turn: Turn, sentence: string, signal?: AbortSignal, seq = sentenceSeq++, textSent = false) => {
+			const text: ServerMessage[] = textSent ? [] : [{ type: 'ai_text', seq, text: sentence }];
+			queue.add(async () => {
+				try {
+					const synthesized = await tts.synthesize(sentence, { signal, timeoutMs: 10000 });
+					const { audio, encoding, sampleRate, durationMs } = synthesized;
+					console.log(`TTS (${tts.name}) #${seq} successful, audio length:`, audio.byteLength, `(${durationMs}ms)`);
+					return {
+						seq,
+						turn,
+						sentence,
+						audio: synthesized,
+						messages: [...text, encodeAudioFrame({ type: AudioFrameType.Clip, seq, encoding, sampleRate, durationMs, audio })],
+					};
+				} catch (error) {
+					if (error instanceof TTSError && error.code === 'aborted') throw error; // turn was interrupted
+					console.error(`TTS (${tts.name}) #${seq} failed:`, error instanceof TTSError ? `[${error.code}] ${error.message}` : error);
+					// send the text without audio so the answer is still readable
+					return {
+						seq,
+						turn,
+						sentence,
+						messages: [
+							...text,
+							{ type: 'error', code: 'tts_failed', message: error instanceof Error ? error.message : String(error), seq },
+						],
+					};
+				}
+			});
+		};
 
-		// Initialize Deepgram STT WebSocket connection
-		const deepgramSTTConnected = await this.deepgramSTT.connect(
-			async (transcript: string, isFinal: boolean) => {
-				console.log('>>', transcript, isFinal ? '(final)' : '(interim)');
-				
-				// Send interim results to client immediately for better UX
-				const message = { 
-					type: 'text', 
-					text: transcript, 
-					interim: !isFinal 
-				};
-				console.log('Sending text message to client:', message);
-				ws.send(JSON.stringify(message));
-
-				// Only process final transcripts for LLM inference
-				if (isFinal && transcript.trim()) {
-					this.msgHistory.push({ role: 'user', content: transcript });
-
-					// run inference
-					const result = streamText({
-						model: workersai('@cf/meta/llama-4-scout-17b-16e-instruct' as any),
-						system:
-							'You are a helpful AI assistant in a voice conversation with the user. Keep your responses conversational and concise. Do not identify yourself as any specific company or brand.',
-						messages: this.msgHistory as any,
-						// experimental_transform: smoothStream(),
-					});
-					
-					// buffer streamed response into sentences, then convert to audio
-					await bufferText(result.textStream, async (sentence: string) => {
-						this.msgHistory.push({ role: 'assistant', content: sentence });
-						console.log('<<', sentence);
-						await queue.add(async () => {
-							try {
-								// Use the DeepgramTTS class for TTS
-								console.log('Synthesizing with DeepgramTTS:', sentence);
-								
-								// Set up a promise to capture the audio result
-								let audioResult: string | null = null;
-								let errorResult: Error | null = null;
-								
-								// Temporarily override the callback to capture this specific result
-								const originalCallback = this.deepgramTTS['onAudioCallback'];
-								const originalErrorCallback = this.deepgramTTS['onErrorCallback'];
-								
-								this.deepgramTTS['onAudioCallback'] = (audioBase64: string) => {
-									audioResult = audioBase64;
-								};
-								
-								this.deepgramTTS['onErrorCallback'] = (error: Error) => {
-									errorResult = error;
-								};
-								
-								// Synthesize the text
-								await this.deepgramTTS.synthesize(sentence);
-								
-								// Wait for the result (with timeout)
-								const timeout = 10000; // 10 seconds
-								const startTime = Date.now();
-								while (!audioResult && !errorResult && (Date.now() - startTime) < timeout) {
-									await new Promise(resolve => setTimeout(resolve, 100));
-								}
-								
-								// Restore original callbacks
-								this.deepgramTTS['onAudioCallback'] = originalCallback;
-								this.deepgramTTS['onErrorCallback'] = originalErrorCallback;
-								
-								if (errorResult) {
-									throw errorResult;
-								}
-								
-								if (!audioResult) {
-									throw new Error('TTS timeout - no audio received');
-								}
-								
-								console.log('Deepgram TTS successful, audio length:', (audioResult as string)?.length || 'unknown');
-								ws.send(JSON.stringify({ type: 'audio', text: sentence, audio: audioResult }));
-								
-							} catch (error) {
-								console.error('Deepgram TTS failed:', error instanceof Error ? error.message : error);
-								// For now, just send the text without audio
-								ws.send(JSON.stringify({ type: 'text', text: `[TTS Error] ${sentence}` }));
-							}
-						});
+		// a streaming socket that could not reconnect is replaced by per-sentence synthesis (and its
+		// provider fallbacks) until TTS is connected again, e.g. for another voice
+		const fallBackFromStream = (failed: StreamingTextToSpeechProvider) => {
+			if (ttsStream !== failed) return;
+			console.warn(`Streaming TTS (${failed.name}) unavailable, falling back to ${tts.name}`);
+			ttsStream = null;
+			failed.disconnect();
+			const dropped = flushingSentences.splice(0);
+			flushedSeq = sentenceSeq;
+			dropped.forEach(({ seq, turn, sentence }) => synthesizeSentence(turn, sentence, turnAbort?.signal, seq, true));
+		};
+
+		// Stops the assistant mid-answer: no more LLM tokens, no more synthesis, and
+		// nothing that was not sent yet reaches the client or the conversation
+		const interrupt = (reason: string) => {
+			if (turnAbort) {
+				console.log('Interrupting assistant:', reason);
+				turnAbort.abort();
+				turnAbort = null;
+				if (respondingTurn) this.conversation.update(respondingTurn, { interrupted: true });
+			}
+			queue.clear();
+			if (ttsStream) {
+				ttsStream.clear();
+				flushingSentences.length = 0;
+				flushedSeq = sentenceSeq; // the stream reports nothing of the cleared sentences, the next audio is the next answer's
+			}
+		};
+
+		// answers the user's last turn, or speaks `scripted` as written (the persona's greeting)
+		const respond = async (scripted?: string) => {
+			const abort = new AbortController();
+			turnAbort = abort;
+			// the greeting is spoken as written, only answers of the LLM count
+			const exceeded = scripted === undefined ? await limits?.addTurn() : null;
+			if (exceeded) {
+				// no answer is running, a later interrupt must not abort one
+				if (turnAbort === abort) turnAbort = null;
+				return rejectRateLimited(exceeded);
+			}
+			if (voiceChanged) {
+				// whatever the old socket still had to say was interrupted by the turn this answers
+				voiceChanged = false;
+				tts.disconnect();
+				ttsStream?.disconnect();
+				await connectTTS();
+			}
+			// a persona switch reconnects TTS, but only after interrupting this answer
+			const stream = ttsStream;
+			const turn = this.conversation.startAssistantTurn(scripted === undefined ? persona.model : null);
+			respondingTurn = turn;
+
+			const synthesize = (sentence: string) => {
+				if (abort.signal.aborted) return;
+				console.log('<<', sentence);
+				synthesizeSentence(turn, sentence, abort.signal);
+			};
+
+			// streaming TTS: the sentence's text was already pushed, flushing renders it
+			const flushSentence = (sentence: string) => {
+				if (abort.signal.aborted || !stream) return;
+				// the stream fell back to per-sentence synthesis in the middle of this answer
+				if (ttsStream !== stream) return synthesize(sentence);
+				console.log('<<', sentence);
+				stream.flush();
+				const seq = sentenceSeq++;
+				flushingSentences.push({ seq, turn, sentence });
+				sendMessage(ws, { type: 'ai_text', seq, text: sentence });
+			};
+
+			// a slow tool gets one spoken filler per answer so the user is not left in silence
+			let progressSpoken = false;
+			const speakProgress = (message: string) => {
+				if (abort.signal.aborted || progressSpoken) return;
+				progressSpoken = true;
+				if (stream && ttsStream === stream) {
+					stream.sendText(`${message} `);
+					flushSentence(message);
+				} else {
+					synthesize(message);
+				}
+			};
+
+			let textStream: ReadableStream<string>;
+			if (scripted !== undefined) {
+				textStream = textToStream(scripted);
+			} else {
+				// ground the answer in the knowledge base, the client shows where it came from
+				const question = this.conversation.turns[this.conversation.turns.length - 1];
+				const sources = knowledge && question?.role === 'user' ? await knowledge.retrieve(question.text) : [];
+				if (abort.signal.aborted) return;
+				if (sources.length) {
+					sendMessage(ws, {
+						type: 'sources',
+						sources: sources.map(({ documentId, title, source, score }) => ({ documentId, title, source, score })),
 					});
 				}
+				const reply = replyLanguage();
+				const { summary, messages } = context.current();
+				const system = [
+					renderPrompt(persona, timezone),
+					memory && memoryPrompt(memory.memories),
+					summary && summaryPrompt(summary),
+					reply && languagePrompt(reply, language === AUTO_LANGUAGE),
+					sources.length && knowledgePrompt(sources),
+				]
+					.filter(Boolean)
+					.join('\n\n');
+
+				// run inference
+				textStream = streamText({
+					model: workersai(persona.model as any),
+					system,
+					messages,
+					temperature: persona.temperature,
+					topP: persona.topP,
+					maxTokens: persona.maxTokens,
+					abortSignal: abort.signal,
+					...(tools.size && { tools: tools.toToolSet({ timezone, signal: abort.signal }, speakProgress), maxSteps: MAX_TOOL_STEPS }),
+					onStepFinish: ({ toolResults }) => {
+						if (!toolResults.length) return;
+						// keep tool calls with the answer so follow-up questions can refer to them
+						const toolCalls = toolResults.map(({ toolCallId, toolName, args, result }) => ({
+							id: toolCallId,
+							name: toolName,
+							args,
+							result,
+						}));
+						this.conversation.update(turn, { toolCalls: [...turn.toolCalls, ...toolCalls] });
+					},
+					onFinish: ({ usage }) => {
+						if (Number.isFinite(usage.promptTokens)) {
+							this.conversation.update(turn, { usage: { promptTokens: usage.promptTokens, completionTokens: usage.completionTokens } });
+						}
+					},
+					// experimental_transform: smoothStream(),
+				}).textStream;
+			}
+
+			try {
+				if (stream) {
+					// push text to TTS as it is generated and flush at every sentence boundary
+					await streamSentences(
+						textStream,
+						(chunk: string) => {
+							if (!abort.signal.aborted && ttsStream === stream) stream.sendText(chunk);
+						},
+						flushSentence
+					);
+					return;
+				}
+
+				// buffer streamed response into sentences, then convert to audio
+				await bufferText(textStream, async (sentence: string) => synthesize(sentence));
+			} catch (error) {
+				if (!abort.signal.aborted) throw error;
+			} finally {
+				// syntheses still running belong to this answer, an interrupt has to be able to abort them
+				await queue.onIdle();
+				if (turnAbort === abort) {
+					turnAbort = null;
+					respondingTurn = null;
+				}
+				// summarizing runs between answers, the next one is sent the shorter history once it is done
+				context.compact();
+			}
+		};
+
+		// final segments are collected until the user actually finished speaking,
+		// optionally confirmed by a semantic end-of-turn check (?turn_detection=llm)
+		const turns = new TurnAssembler(
+			(userTurn: AssembledTurn) => {
+				console.log('>> turn:', userTurn.text);
+				sendMessage(ws, { type: 'text', text: userTurn.text, interim: false });
+				// a new user turn supersedes whatever the assistant was still saying
+				interrupt('new user turn');
+				const spoken = userTurn.language;
+				if (language === AUTO_LANGUAGE && spoken && primaryLanguage(spoken) !== primaryLanguage(detectedLanguage ?? '')) {
+					// the answer to this turn already comes in the new language and voice
+					console.log(`User switched to ${languageName(spoken)}`);
+					detectedLanguage = spoken;
+					sendMessage(ws, { type: 'language', language, detected: spoken });
+					matchVoiceToLanguage();
+				}
+				this.conversation.addUserTurn(userTurn);
+				respond().catch((error) => console.error('Failed to respond:', error));
 			},
-			(error: Error) => {
-				console.error('Deepgram STT error:', error);
+			{
+				detector: createTurnDetector(this.env, searchParams.get('turn_detection')),
+				maxWaitMs: Number(this.env.TURN_MAX_WAIT_MS) || 3000,
 			}
 		);
 
-		if (!deepgramSTTConnected) {
-			console.error('Failed to connect to Deepgram STT');
-		} else {
-			console.log('Deepgram STT connected successfully');
-		}
+		const sttListeners: SpeechToTextListeners = {
+			onTranscript: (event) => {
+				const { transcript, isFinal, speechFinal } = event;
+				console.log('>>', transcript, isFinal ? '(final)' : '(interim)', speechFinal ? '(speech final)' : '');
+
+				// Show the turn so far as interim text until it is committed
+				if (transcript && !speechFinal) {
+					sendMessage(ws, { type: 'text', text: turns.preview(transcript), interim: true });
+				}
+				turns.add(event);
+			},
+			onUtteranceEnd: () => turns.utteranceEnd(),
+			onError: (error: Error) => {
+				console.error(`STT (${stt.name}) error:`, error);
+			},
+		};
+		const connectSTT = async () => {
+			stt = createSpeechToText(this.env, searchParams.get('stt'), { model: persona.sttModel, language });
+			const sttConnected = await stt.connect(sttListeners);
+
+			if (!sttConnected) {
+				console.error(`Failed to connect to STT (${stt.name})`);
+			} else {
+				console.log(`STT (${stt.name}, ${language}) connected successfully`);
+			}
+		};
+		// Initialize STT connection
+		await connectSTT();
+
+		// switches the voice, false when none of the session's TTS providers can speak it, and then none of them
+		// changed. With per-sentence synthesis it is heard from the next sentence. TTS reconnects before the next
+		// answer when the stream speaks it, or has to give way to per-sentence synthesis for a voice of another vendor
+		const applyVoice = (next: Voice): boolean => {
+			// providers only change their voice when they can speak the new one
+			const streamed = streamProvider?.setVoice(next) ?? false;
+			const synthesized = tts.setVoice(next);
+			if (!streamed && !synthesized) return false;
+			if (ttsStream || streamed) voiceChanged = true;
+			return true;
+		};
+
+		// keeps the voice while it speaks the reply language, otherwise switches to the closest one that does
+		const matchVoiceToLanguage = () => {
+			const target = replyLanguage();
+			const speaking = languageVoice ?? voice ?? findVoice(persona.voice);
+			// a persona voice missing from the catalog is kept, its language is unknown
+			if (!target || !speaking || primaryLanguage(speaking.language) === primaryLanguage(target)) return;
+			// a session that streams goes back to it as soon as the stream's vendor speaks the language
+			const next = voicesForLanguage(this.env, target, speaking)
+				.sort((a, b) => Number(b.provider === streamProvider?.name) - Number(a.provider === streamProvider?.name))
+				.find(applyVoice);
+			if (!next) {
+				console.warn(`No ${languageName(target)} voice available, keeping ${speaking.id}`);
+				return;
+			}
+			languageVoice = next;
+			sendMessage(ws, { type: 'voice', voice: next.id });
+			console.log(`Voice switched to ${next.id} for ${languageName(target)}`);
+		};
+		matchVoiceToLanguage();
+
+		// a new conversation starts with the persona's greeting
+		const greet = () => {
+			if (this.conversation.turns.length || !persona.greeting) return;
+			respond(persona.greeting).catch((error) => console.error('Failed to greet:', error));
+		};
+
+		// `configure` switches the assistant mid-session. STT and TTS are only reconnected when the persona
+		// listens or sounds different, the conversation so far is kept
+		const configurePersona = async (name: string) => {
+			const next = await loadPersona(this.env, name);
+			if (!next) {
+				sendMessage(ws, { type: 'error', code: 'unknown_persona', message: `Unknown persona "${name}"` });
+				return;
+			}
+			const previous = persona;
+			const previousVoice = languageVoice ?? voice;
+			const previousLanguage = language;
+			persona = next;
+			// the new persona brings its own voice and language
+			voice = null;
+			languageVoice = null;
+			language = next.language;
+			if (language !== previousLanguage) detectedLanguage = null;
+			await this.ctx.storage.put('persona', next.name);
+			await this.ctx.storage.delete(['voice', 'language']);
+			sendMessage(ws, { type: 'persona', name: next.name, description: next.description });
+			sendMessage(ws, { type: 'voice', voice: next.voice });
+			sendMessage(ws, { type: 'language', language, detected: detectedLanguage });
+			console.log(`Persona switched from ${previous.name} to ${next.name}`);
+
+			if (previousVoice || next.voice !== previous.voice || language !== previousLanguage) {
+				interrupt('persona changed');
+				tts.disconnect();
+				ttsStream?.disconnect();
+				await connectTTS();
+			}
+			if (next.sttModel !== previous.sttModel || language !== previousLanguage) {
+				stt.disconnect();
+				await connectSTT();
+			}
+			matchVoiceToLanguage();
+			greet();
+		};
+
+		// takes effect from the next sentence, with streaming TTS from the next answer
+		const configureVoice = async (id: string) => {
+			const next = findVoice(id);
+			if (!next) {
+				sendMessage(ws, { type: 'error', code: 'unknown_voice', message: `Unknown voice "${id}", see /api/voices` });
+				return;
+			}
+			if (!applyVoice(next)) {
+				sendMessage(ws, { type: 'error', code: 'voice_unavailable', message: `Voice "${id}" needs the ${next.provider} TTS provider` });
+				return;
+			}
+			// a picked voice is kept even when it does not speak the reply language, until the user switches language
+			voice = next;
+			languageVoice = null;
+			await this.ctx.storage.put('voice', next.id);
+			sendMessage(ws, { type: 'voice', voice: next.id, appliesFrom: ttsStream ? 'next_answer' : 'next_sentence' });
+			console.log('Voice switched to', next.id);
+		};
+
+		// a fixed language reconnects STT, `auto` lets the STT detect it from the next utterance on
+		const configureLanguage = async (next: string) => {
+			if (next === language) {
+				sendMessage(ws, { type: 'language', language, detected: detectedLanguage });
+				return;
+			}
+			language = next;
+			detectedLanguage = null;
+			await this.ctx.storage.put('language', next);
+			sendMessage(ws, { type: 'language', language, detected: null });
+			console.log('Language switched to', next);
+			stt.disconnect();
+			await connectSTT();
+			matchVoiceToLanguage();
+		};
 
 		ws.addEventListener('message', async (event) => {
-			// handle chat commands
+			if (rateLimited) return;
+			// handle protocol messages
 			if (typeof event.data === 'string') {
-				const { type, data } = JSON.parse(event.data);
-				if (type === 'cmd' && data === 'clear') {
-					this.msgHistory.length = 0; // clear chat history
+				const parsed = parseClientMessage(event.data);
+				if (!parsed.success) {
+					console.warn('Rejected client message:', parsed.error.message);
+					sendMessage(ws, parsed.error);
+					return;
+				}
+
+				const message = parsed.message;
+				if (message.type === 'hello' && message.version !== PROTOCOL_VERSION) {
+					sendMessage(ws, {
+						type: 'error',
+						code: 'unsupported_version',
+						message: `Client speaks protocol v${message.version}, server speaks v${PROTOCOL_VERSION}`,
+					});
+					ws.close(1002, 'Unsupported protocol version');
+				} else if (message.type === 'hello') {
+					if (message.timezone) timezone = message.timezone;
+				} else if (message.type === 'cmd' && message.data === 'clear') {
+					interrupt('history cleared');
+					turns.reset();
+					this.conversation.clear(); // clear chat history
+					playback.reset();
+				} else if (message.type === 'cmd' && message.data === 'interrupt') {
+					interrupt('client request');
+				} else if (message.type === 'playback') {
+					playback.handle(message);
+					recorder?.handlePlayback(message);
+				} else if (message.type === 'configure') {
+					if (message.persona) await configurePersona(message.persona);
+					if (message.voice) await configureVoice(message.voice);
+					if (message.language) await configureLanguage(message.language);
+				} else if (message.type === 'export') {
+					const transcript = exportTranscript(searchParams.get('session') ?? '', this.conversation.turns, message.format);
+					sendMessage(ws, { type: 'export', format: message.format, ...transcript });
 				}
 				return; // end processing here for this event type
 			}
 
-			// Send audio directly to Deepgram STT WebSocket for faster processing
-			this.deepgramSTT.sendAudio(event.data as ArrayBuffer);
+			// user is talking again (barge-in), the client already stopped playback
+			interrupt('user speech');
+			recorder?.addUserAudio(event.data as ArrayBuffer);
+			// counted alongside transcription, the utterance that crosses the limit is still answered
+			limits
+				?.addAudio(audioDurationMs(event.data as ArrayBuffer, 'wav', 16000))
+				.then((exceeded) => exceeded && rejectRateLimited(exceeded));
+
+			// Send audio directly to the STT provider for faster processing
+			stt.sendAudio(event.data as ArrayBuffer);
 		});
 
 		ws.addEventListener('close', (cls) => {
-			// Clean up Deepgram connections
-			this.deepgramTTS.disconnect();
-			this.deepgramSTT.disconnect();
-			ws.close(cls.code, 'Durable Object is closing WebSocket');
+			// Clean up STT and TTS connections
+			interrupt('socket closed');
+			console.log(`Session ended, assistant spoke for ${Math.round(playback.speakingMs / 1000)}s`);
+			tts.disconnect();
+			ttsStream?.disconnect();
+			stt.disconnect();
+			mcp.then((connection) => connection.close()).catch((error) => console.error('Failed to close MCP connections:', error));
+			// mixing the session's recording outlives the socket
+			if (recorder) this.ctx.waitUntil(recorder.finish());
+			// so are the facts the user mentioned, remembered for their next sessions
+			if (memory) this.ctx.waitUntil(this.extractMemories(memory));
+			limits?.close();
+			// a rate limited socket was closed by the server already
+			if (!rateLimited) ws.close(cls.code, 'Durable Object is closing WebSocket');
 		});
 
-		return new Response(null, { status: 101, webSocket: socket });
+		greet();
+
+		return new Response(null, { status: 101, webSocket: socket, headers });
 	}
 }
 
+const SESSION_ID_PATTERN = /^[\w-]{8,64}$/;
+
+/** compares in constant time, and never matches when no token is configured */
+async function hasBearerToken(request: Request, expected: string | undefined): Promise<boolean> {
+	const header = request.headers.get('Authorization') ?? '';
+	if (!expected || !header.startsWith('Bearer ')) return false;
+	const encoder = new TextEncoder();
+	const [given, wanted] = await Promise.all(
+		[header.slice(7), expected].map((token) => crypto.subtle.digest('SHA-256', encoder.encode(token)))
+	);
+	return crypto.subtle.timingSafeEqual(given, wanted);
+}
+
+function tooManyRequests(retryAfterMs: number): Response {
+	return new Response('Too many requests', { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } });
+}
+
 export default {
-	async fetch(request, env, _ctx): Promise<Response> {
-		if (request.url.endsWith('/websocket')) {
+	async fetch(request, env, ctx): Promise<Response> {
+		const url = new URL(request.url);
+		if (url.pathname === '/websocket') {
 			const upgradeHeader = request.headers.get('Upgrade');
 			if (!upgradeHeader || upgradeHeader !== 'websocket') {
 				return new Response('Expected upgrade to websocket', { status: 426 });
 			}
-			let id: DurableObjectId = env.MY_DURABLE_OBJECT.idFromName(crypto.randomUUID());
+			if (!isAllowedOrigin(request, env)) {
+				return new Response('Origin not allowed', { status: 403 });
+			}
+			// with AUTH=on only holders of a token from /api/token get a session, the token says who the user is
+			if ((env.AUTH || 'on') === 'on') {
+				if (!env.AUTH_SECRET) {
+					console.error('AUTH is on but AUTH_SECRET is not set, rejecting all sessions');
+					return new Response('Authentication is not configured', { status: 503 });
+				}
+				const token = readUpgradeToken(request, url);
+				const claims = token ? await verifyToken(env.AUTH_SECRET, token) : null;
+				if (!claims) {
+					return new Response('Unauthorized', { status: 401 });
+				}
+				url.searchParams.set('user', claims.sub);
+			}
+			url.searchParams.delete('token');
+			// ?session=<id> resumes a conversation, without it a new session is started
+			const session = url.searchParams.get('session') || crypto.randomUUID();
+			if (!SESSION_ID_PATTERN.test(session)) {
+				return new Response('Invalid session id', { status: 400 });
+			}
+			url.searchParams.set('session', session);
+			// ?user=<id> gives the assistant a memory of the user across sessions, with AUTH=on it comes from the token
+			const user = url.searchParams.get('user');
+			if (user && !USER_ID_PATTERN.test(user)) {
+				return new Response('Invalid user id', { status: 400 });
+			}
+			let id: DurableObjectId = env.MY_DURABLE_OBJECT.idFromName(session);
 			let stub = env.MY_DURABLE_OBJECT.get(id);
-			return stub.fetch(request);
+			return stub.fetch(new Request(url, request));
+		}
+
+		// POST /api/token issues a short-lived token for /websocket. With `Authorization: Bearer <TOKEN_ISSUER_KEY>` it is for
+		// the `user` in the body, otherwise (ANONYMOUS_TOKENS=on, browsers on allowed origins only) for an anonymous user,
+		// the same one the previous `token` was for
+		if (url.pathname === '/api/token' && request.method === 'POST') {
+			if (!env.AUTH_SECRET) {
+				return new Response('Authentication is not configured', { status: 503 });
+			}
+			let body: unknown;
+			try {
+				const text = await request.text();
+				body = text ? JSON.parse(text) : {};
+			} catch {
+				return new Response('Body is not valid JSON', { status: 400 });
+			}
+			const result = TokenRequest.safeParse(body);
+			if (!result.success) {
+				return new Response(z.prettifyError(result.error), { status: 400 });
+			}
+			let user: string;
+			if (await hasBearerToken(request, env.TOKEN_ISSUER_KEY)) {
+				if (!result.data.user || result.data.user.startsWith(ANONYMOUS_USER_PREFIX)) {
+					return new Response('Issued tokens need a user that does not start with "anon-"', { status: 400 });
+				}
+				user = result.data.user;
+			} else if ((env.ANONYMOUS_TOKENS || 'on') === 'on' && request.headers.has('Origin') && isAllowedOrigin(request, env)) {
+				// every anonymous token is a fresh user with fresh per-user limits, only the IP bounds how many there are
+				const retryAfterMs = await limitRequest(env, request, 'token', env.TOKENS_PER_HOUR_PER_IP, 60);
+				if (retryAfterMs !== null) return tooManyRequests(retryAfterMs);
+				user = (await anonymousUser(env.AUTH_SECRET, result.data.token)) ?? `${ANONYMOUS_USER_PREFIX}${crypto.randomUUID()}`;
+			} else {
+				return new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+			}
+			const { token, claims } = await signToken(env.AUTH_SECRET, user, Number(env.TOKEN_TTL_SECONDS) || 300);
+			return Response.json({ token, user, expiresAt: claims.exp * 1000 }, { headers: { 'Cache-Control': 'no-store' } });
+		}
+
+		// GET /api/sessions/<id>/recording, needs `Authorization: Bearer <RECORDINGS_TOKEN>`
+		const recordingRoute = url.pathname.match(/^\/api\/sessions\/([^/]+)\/recording$/);
+		if (recordingRoute && request.method === 'GET') {
+			const [, session] = recordingRoute;
+			if (!(await hasBearerToken(request, env.RECORDINGS_TOKEN))) {
+				return new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+			}
+			if (!SESSION_ID_PATTERN.test(session)) {
+				return new Response('Invalid session id', { status: 400 });
+			}
+			const recording = await env.RECORDINGS?.get(recordingKey(session));
+			if (!recording) {
+				return new Response('Recording not found', { status: 404 });
+			}
+			return new Response(recording.body, {
+				headers: {
+					'Content-Type': 'audio/wav',
+					'Content-Length': String(recording.size),
+					'Content-Disposition': `attachment; filename="recording-${session}.wav"`,
+				},
+			});
+		}
+
+		// GET /api/sessions/<id>/transcript?format=json|markdown|vtt|srt, needs `Authorization: Bearer <TRANSCRIPTS_TOKEN>`
+		// for any session, or `Authorization: Bearer <token from /api/token>` for the sessions of the token's user
+		const transcriptRoute = url.pathname.match(/^\/api\/sessions\/([^/]+)\/transcript$/);
+		if (transcriptRoute && request.method === 'GET') {
+			const [, session] = transcriptRoute;
+			const format = url.searchParams.get('format') || 'json';
+			let user: string | null = null;
+			if (!(await hasBearerToken(request, env.TRANSCRIPTS_TOKEN))) {
+				const token = request.headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+				const claims = token && env.AUTH_SECRET ? await verifyToken(env.AUTH_SECRET, token) : null;
+				if (!claims) {
+					return new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+				}
+				user = claims.sub;
+			}
+			if (!SESSION_ID_PATTERN.test(session)) {
+				return new Response('Invalid session id', { status: 400 });
+			}
+			if (!isTranscriptFormat(format)) {
+				return new Response(`Unknown transcript format "${format}"`, { status: 400 });
+			}
+			const stub = env.MY_DURABLE_OBJECT.get(env.MY_DURABLE_OBJECT.idFromName(session));
+			// sessions of other users are not found either, whether they exist is nobody else's business
+			const transcript = await stub.exportTranscript(session, format, user);
+			if (!transcript) {
+				return new Response('Session not found', { status: 404 });
+			}
+			return new Response(transcript.content, {
+				headers: {
+					'Content-Type': transcript.contentType,
+					'Content-Disposition': `attachment; filename="${transcript.filename}"`,
+				},
+			});
+		}
+
+		// GET lists the documents of the knowledge base, POST uploads one and DELETE /api/knowledge/<id> removes it.
+		// all need `Authorization: Bearer <KNOWLEDGE_TOKEN>`
+		const knowledgeRoute = url.pathname.match(/^\/api\/knowledge(?:\/([^/]+))?$/);
+		if (knowledgeRoute) {
+			const [, documentId] = knowledgeRoute;
+			if (!(await hasBearerToken(request, env.KNOWLEDGE_TOKEN))) {
+				return new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+			}
+			const knowledgeBase = getKnowledgeBase(env);
+			if (!documentId && request.method === 'GET') {
+				return Response.json(await knowledgeBase.listDocuments());
+			}
+			if (!documentId && request.method === 'POST') {
+				const result = await readKnowledgeUpload(request);
+				if ('error' in result) {
+					return new Response(result.error, { status: 400 });
+				}
+				return Response.json(await knowledgeBase.addDocument(result.upload), { status: 201 });
+			}
+			if (documentId && request.method === 'DELETE') {
+				const deleted = await knowledgeBase.deleteDocument(documentId);
+				return deleted ? new Response(null, { status: 204 }) : new Response('Document not found', { status: 404 });
+			}
+		}
+
+		// GET /api/users/<id>/memories lists what the assistant remembers about a user, DELETE removes all of it
+		// and DELETE /api/users/<id>/memories/<memory> one memory. all need `Authorization: Bearer <MEMORY_TOKEN>`
+		const memoryRoute = url.pathname.match(/^\/api\/users\/([^/]+)\/memories(?:\/([^/]+))?$/);
+		if (memoryRoute) {
+			const [, user, memoryId] = memoryRoute;
+			if (!(await hasBearerToken(request, env.MEMORY_TOKEN))) {
+				return new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+			}
+			if (!USER_ID_PATTERN.test(user)) {
+				return new Response('Invalid user id', { status: 400 });
+			}
+			const userMemory = getUserMemory(env, user);
+			if (!memoryId && request.method === 'GET') {
+				return Response.json(await userMemory.listMemories());
+			}
+			if (!memoryId && request.method === 'DELETE') {
+				await userMemory.clearMemories();
+				return new Response(null, { status: 204 });
+			}
+			if (memoryId && request.method === 'DELETE') {
+				const deleted = /^\d+$/.test(memoryId) && (await userMemory.deleteMemories([Number(memoryId)])) > 0;
+				return deleted ? new Response(null, { status: 204 }) : new Response('Memory not found', { status: 404 });
+			}
+		}
+
+		// GET /api/voices?provider=&language=, the voices a session can switch to with `configure`
+		if (url.pathname === '/api/voices' && request.method === 'GET') {
+			const provider = url.searchParams.get('provider');
+			const language = url.searchParams.get('language')?.toLowerCase();
+			const voices = VOICES.filter(
+				(voice) => (!provider || voice.provider === provider) && (!language || voice.language.toLowerCase().startsWith(language))
+			);
+			// `available` is for sessions opened with the same ?tts= and ?tts_mode=
+			const tts = url.searchParams.get('tts');
+			const ttsMode = url.searchParams.get('tts_mode');
+			return Response.json(
+				voices.map((voice) => ({
+					...voice,
+					available: canSpeakVoice(env, voice, tts, ttsMode),
+					sampleUrl: `/api/voices/${voice.id}/sample`,
+				}))
+			);
+		}
+
+		// GET /api/voices/<id>/sample, every voice reads the same text so samples are cached
+		const sampleRoute = url.pathname.match(/^\/api\/voices\/([^/]+)\/sample$/);
+		if (sampleRoute && request.method === 'GET') {
+			const voice = findVoice(sampleRoute[1]);
+			if (!voice) {
+				return new Response('Voice not found', { status: 404 });
+			}
+			if (!isVoiceAvailable(env, voice)) {
+				return new Response(`The ${voice.provider} TTS provider is not configured`, { status: 503 });
+			}
+			// keyed without the query string, `?n=<random>` must not get around the cache
+			const cacheKey = new Request(`${url.origin}${url.pathname}`);
+			const cached = await caches.default.match(cacheKey);
+			if (cached) return cached;
+			// every sample that is not cached is synthesized, workers.dev has no cache at all
+			const retryAfterMs = await limitRequest(env, request, 'voice_sample', env.VOICE_SAMPLES_PER_HOUR, 30);
+			if (retryAfterMs !== null) return tooManyRequests(retryAfterMs);
+
+			let sample: SynthesizedAudio;
+			try {
+				sample = await synthesizeVoiceSample(env, voice);
+			} catch (error) {
+				console.error(`Failed to synthesize sample of ${voice.id}:`, error);
+				return new Response('Failed to synthesize sample', { status: 502 });
+			}
+			const { audio, encoding, sampleRate } = sample;
+			const body = encoding === 'linear16' ? new Blob([encodeWavHeader(audio.byteLength, sampleRate, 1), audio]) : audio;
+			const response = new Response(body, {
+				headers: { 'Content-Type': encoding === 'mp3' ? 'audio/mpeg' : 'audio/wav', 'Cache-Control': 'public, max-age=86400' },
+			});
+			ctx.waitUntil(caches.default.put(cacheKey, response.clone()));
+			return response;
+		}
+
+		// GET /api/personas lists the personas, GET, PUT and DELETE /api/personas/<name> manage one.
+		// all need `Authorization: Bearer <PERSONAS_TOKEN>`
+		const personaRoute = url.pathname.match(/^\/api\/personas(?:\/([^/]+))?$/);
+		if (personaRoute) {
+			const [, name] = personaRoute;
+			if (!(await hasBearerToken(request, env.PERSONAS_TOKEN))) {
+				return new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+			}
+			const personas = getPersonaStore(env);
+			if (!name && request.method === 'GET') {
+				const stored = await personas.listPersonas();
+				// the built-in default is listed until a stored one replaces it
+				const builtIn = stored.some((persona) => persona.name === DEFAULT_PERSONA.name) ? [] : [DEFAULT_PERSONA];
+				return Response.json([...builtIn, ...stored]);
+			}
+			if (name && !PERSONA_NAME_PATTERN.test(name)) {
+				return new Response('Invalid persona name', { status: 400 });
+			}
+			if (name && request.method === 'GET') {
+				const persona = await loadPersona(env, name);
+				return persona ? Response.json(persona) : new Response('Persona not found', { status: 404 });
+			}
+			if (name && request.method === 'PUT') {
+				let body: unknown;
+				try {
+					body = await request.json();
+				} catch {
+					return new Response('Body is not valid JSON', { status: 400 });
+				}
+				const result = Persona.safeParse({ ...(body as object), name });
+				if (!result.success) {
+					return new Response(z.prettifyError(result.error), { status: 400 });
+				}
+				await personas.putPersona(result.data);
+				return Response.json(result.data);
+			}
+			if (name && request.method === 'DELETE') {
+				const deleted = await personas.deletePersona(name);
+				return deleted ? new Response(null, { status: 204 }) : new Response('Persona not found', { status: 404 });
+			}
 		}
 
 		return new Response(null, {
@@ -0,0 +1,282 @@
+import { DurableObject } from 'cloudflare:workers';
+import { z } from 'zod';
+
+const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+// Workers AI embeds at most 100 texts per request
+const EMBEDDING_BATCH_SIZE = 100;
+// a chunk is a few spoken answers long, small enough that several fit in the prompt
+const CHUNK_MAX_CHARS = 1000;
+// the last sentences of a chunk are repeated in the next so an answer is not cut in half
+const CHUNK_OVERLAP_CHARS = 200;
+// bge scores unrelated text around 0.4-0.5, below this a chunk would only distract the model
+const MIN_SCORE = 0.6;
+/** the whole knowledge base lives in one Durable Object */
+const KNOWLEDGE_BASE_NAME = 'default';
+// keeps a document's chunks within what Vectorize accepts in one upsert
+const MAX_DOCUMENT_CHARS = 500_000;
+
+/** `POST /api/knowledge` as JSON, plain text and Markdown take title and source from the query string */
+export const KnowledgeUpload = z.object({
+	title: z.string().trim().min(1).max(200),
+	text: z.string().trim().min(1).max(MAX_DOCUMENT_CHARS),
+	/** http(s) only, the client links to it */
+	source: z.url({ protocol: /^https?$/ }).nullish(),
+});
+export type KnowledgeUpload = z.infer<typeof KnowledgeUpload>;
+
+export interface KnowledgeDocument {
+	id: string;
+	title: string;
+	/** where the document came from, e.g. the URL of a docs page */
+	source: string | null;
+	chunks: number;
+	createdAt: number;
+}
+
+/** a chunk retrieved for a question */
+export interface KnowledgeSource {
+	documentId: string;
+	title: string;
+	source: string | null;
+	text: string;
+	score: number;
+}
+
+type ChunkRow = { id: string; document_id: string; text: string; title: string; source: string | null };
+
+/**
+ * Documents uploaded through `/api/knowledge`, split into chunks and embedded. Vectors
+ * go to the `KNOWLEDGE_INDEX` Vectorize index when it is bound, otherwise they are kept
+ * in SQLite next to the chunks and searched by brute force, which is fine for a few
+ * thousand chunks.
+ */
+export class KnowledgeBase extends DurableObject<Env> {
+	private sql: SqlStorage;
+	// embeddings of the SQLite fallback, loaded on the first search
+	private vectors: Array<{ id: string; embedding: Float32Array }> | null = null;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.sql = ctx.storage.sql;
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS documents (
+			id TEXT PRIMARY KEY,
+			title TEXT NOT NULL,
+			source TEXT,
+			chunks INTEGER NOT NULL,
+			created_at INTEGER NOT NULL
+		)`);
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS chunks (
+			id TEXT PRIMARY KEY,
+			document_id TEXT NOT NULL,
+			position INTEGER NOT NULL,
+			text TEXT NOT NULL,
+			embedding BLOB
+		)`);
+	}
+
+	async addDocument({ title, text, source }: KnowledgeUpload): Promise<KnowledgeDocument> {
+		const id = crypto.randomUUID();
+		const chunks = chunkText(text);
+		// the title tells the embedding what a chunk from the middle of a page is about
+		const embeddings = await this.embed(chunks.map((chunk) => `${title}\n${chunk}`));
+		const chunkIds = chunks.map((_, position) => `${id}:${position}`);
+
+		if (this.env.KNOWLEDGE_INDEX) {
+			await this.env.KNOWLEDGE_INDEX.upsert(
+				chunkIds.map((chunkId, i) => ({ id: chunkId, values: embeddings[i], metadata: { documentId: id } }))
+			);
+		}
+		const document: KnowledgeDocument = { id, title, source: source ?? null, chunks: chunks.length, createdAt: Date.now() };
+		this.ctx.storage.transactionSync(() => {
+			this.sql.exec(
+				'INSERT INTO documents (id, title, source, chunks, created_at) VALUES (?, ?, ?, ?, ?)',
+				id,
+				title,
+				document.source,
+				document.chunks,
+				document.createdAt
+			);
+			chunks.forEach((chunk, position) => {
+				const embedding = this.env.KNOWLEDGE_INDEX ? null : new Float32Array(embeddings[position]).buffer;
+				this.sql.exec(
+					'INSERT INTO chunks (id, document_id, position, text, embedding) VALUES (?, ?, ?, ?, ?)',
+					chunkIds[position],
+					id,
+					position,
+					chunk,
+					embedding
+				);
+			});
+		});
+		this.vectors = null;
+		console.log(`Knowledge base: added "${title}" (${chunks.length} chunks)`);
+		return document;
+	}
+
+	listDocuments(): KnowledgeDocument[] {
+		return this.sql
+			.exec<{ id: string; title: string; source: string | null; chunks: number; created_at: number }>(
+				'SELECT * FROM documents ORDER BY created_at'
+			)
+			.toArray()
+			.map(({ id, title, source, chunks, created_at }) => ({ id, title, source, chunks, createdAt: created_at }));
+	}
+
+	/** false when there is no such document */
+	async deleteDocument(id: string): Promise<boolean> {
+		const chunkIds = this.sql
+			.exec<{ id: string }>('SELECT id FROM chunks WHERE document_id = ?', id)
+			.toArray()
+			.map((row) => row.id);
+		if (this.env.KNOWLEDGE_INDEX && chunkIds.length) await this.env.KNOWLEDGE_INDEX.deleteByIds(chunkIds);
+		const deleted = this.sql.exec('DELETE FROM documents WHERE id = ?', id).rowsWritten > 0;
+		this.sql.exec('DELETE FROM chunks WHERE document_id = ?', id);
+		this.vectors = null;
+		return deleted;
+	}
+
+	/** the `topK` chunks closest to the question, best first */
+	async search(query: string, topK: number): Promise<KnowledgeSource[]> {
+		const [{ count }] = this.sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM chunks').toArray();
+		if (!count) return []; // spare the embedding call while nothing was uploaded
+
+		const [embedding] = await this.embed([query]);
+		const matches = this.env.KNOWLEDGE_INDEX
+			? (await this.env.KNOWLEDGE_INDEX.query(embedding, { topK })).matches
+			: this.searchLocally(embedding, topK);
+		const relevant = matches.filter((match) => match.score >= MIN_SCORE);
+		if (!relevant.length) return [];
+
+		const rows = this.sql
+			.exec<ChunkRow>(
+				`SELECT chunks.id, chunks.document_id, chunks.text, documents.title, documents.source FROM chunks
+				JOIN documents ON documents.id = chunks.document_id WHERE chunks.id IN (${relevant.map(() => '?').join(', ')})`,
+				...relevant.map((match) => match.id)
+			)
+			.toArray();
+		return relevant.flatMap(({ id, score }) => {
+			const row = rows.find((candidate) => candidate.id === id);
+			return row ? [{ documentId: row.document_id, title: row.title, source: row.source, text: row.text, score }] : [];
+		});
+	}
+
+	private searchLocally(query: number[], topK: number): Array<{ id: string; score: number }> {
+		this.vectors ??= this.sql
+			.exec<{ id: string; embedding: ArrayBuffer }>('SELECT id, embedding FROM chunks WHERE embedding IS NOT NULL')
+			.toArray()
+			.map(({ id, embedding }) => ({ id, embedding: new Float32Array(embedding) }));
+		return this.vectors
+			.map(({ id, embedding }) => ({ id, score: cosineSimilarity(query, embedding) }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, topK);
+	}
+
+	private async embed(texts: string[]): Promise<number[][]> {
+		const embeddings: number[][] = [];
+		for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+			const { data } = await this.env.AI.run(EMBEDDING_MODEL, { text: texts.slice(i, i + EMBEDDING_BATCH_SIZE) });
+			embeddings.push(...data);
+		}
+		return embeddings;
+	}
+}
+
+export async function readKnowledgeUpload(request: Request): Promise<{ upload: KnowledgeUpload } | { error: string }> {
+	const { searchParams } = new URL(request.url);
+	let body: unknown;
+	if (request.headers.get('Content-Type')?.startsWith('application/json')) {
+		try {
+			body = await request.json();
+		} catch {
+			return { error: 'Body is not valid JSON' };
+		}
+	} else {
+		body = { title: searchParams.get('title'), source: searchParams.get('source'), text: await request.text() };
+	}
+	const result = KnowledgeUpload.safeParse(body);
+	return result.success ? { upload: result.data } : { error: z.prettifyError(result.error) };
+}
+
+export function getKnowledgeBase(env: Env): DurableObjectStub<KnowledgeBase> {
+	return env.KNOWLEDGE_BASE.get(env.KNOWLEDGE_BASE.idFromName(KNOWLEDGE_BASE_NAME));
+}
+
+export interface KnowledgeRetriever {
+	/** never throws, a failing lookup just answers without the knowledge base */
+	retrieve(question: string): Promise<KnowledgeSource[]>;
+}
+
+/**
+ * Retrieval runs before every answer unless `KNOWLEDGE_RETRIEVAL` (or `?kb=`) is off,
+ * returns null then.
+ */
+export function createKnowledgeRetriever(env: Env, requested?: string | null): KnowledgeRetriever | null {
+	const mode = requested || env.KNOWLEDGE_RETRIEVAL || 'on';
+	if (mode !== 'on') return null;
+	const topK = Number(env.KNOWLEDGE_TOP_K) || 3;
+	return {
+		retrieve: async (question) => {
+			try {
+				return await getKnowledgeBase(env).search(question, topK);
+			} catch (error) {
+				console.error('Knowledge base search failed:', error);
+				return [];
+			}
+		},
+	};
+}
+
+/** instructions for the model with the retrieved chunks, numbered like the sources sent to the client */
+export function knowledgePrompt(sources: KnowledgeSource[]): string {
+	const excerpts = sources.map(({ title, text }, index) => `[${index + 1}] ${title}\n${text}`).join('\n\n');
+	return `Answer from the following excerpts of the knowledge base when they are relevant to the question. If they do not cover it, say so rather than guessing. Do not read out the excerpt numbers.\n\n${excerpts}`;
+}
+
+/**
+ * Splits text into chunks of at most CHUNK_MAX_CHARS along paragraph and sentence
+ * boundaries, each starting with the last sentences of the previous one.
+ */
+export function chunkText(text: string): string[] {
+	const sentences = text
+		.split(/\n\s*\n/)
+		.flatMap((paragraph) => paragraph.replace(/\s+/g, ' ').match(/[^.!?]+(?:[.!?]+|$)/g) ?? [])
+		.map((sentence) => sentence.trim())
+		.filter(Boolean)
+		// a sentence longer than a chunk is cut at the limit
+		.flatMap((sentence) => sentence.match(new RegExp(`.{1,${CHUNK_MAX_CHARS}}`, 'g')) ?? []);
+
+	const chunks: string[] = [];
+	let current: string[] = [];
+	let length = 0;
+	for (const sentence of sentences) {
+		if (current.length && length + sentence.length + 1 > CHUNK_MAX_CHARS) {
+			chunks.push(current.join(' '));
+			// carry over whole sentences from the end while they fit the overlap
+			const overlap: string[] = [];
+			let overlapLength = 0;
+			for (let i = current.length - 1; i >= 0 && overlapLength + current[i].length <= CHUNK_OVERLAP_CHARS; i--) {
+				overlap.unshift(current[i]);
+				overlapLength += current[i].length + 1;
+			}
+			const fits = overlapLength + sentence.length + 1 <= CHUNK_MAX_CHARS;
+			current = fits ? overlap : [];
+			length = fits ? overlapLength : 0;
+		}
+		current.push(sentence);
+		length += sentence.length + 1;
+	}
+	if (current.length) chunks.push(current.join(' '));
+	return chunks;
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
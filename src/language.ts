@@ -0,0 +1,39 @@
+/** the session's language when the user may speak any language the STT recognizes */
+export const AUTO_LANGUAGE = 'auto';
+
+/** `auto` or a BCP-47 tag like `es` or `pt-BR` */
+export const LANGUAGE_PATTERN = /^(auto|[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*)$/;
+
+// Whisper guesses a language even for a cough, less certain detections keep the previous language
+export const MIN_LANGUAGE_PROBABILITY = 0.7;
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/** `es-MX` -> `es` */
+export function primaryLanguage(language: string): string {
+	return language.split('-')[0].toLowerCase();
+}
+
+/** English name of a language, the code itself when it is not known */
+export function languageName(language: string): string {
+	try {
+		return displayNames.of(primaryLanguage(language)) ?? language;
+	} catch {
+		return language;
+	}
+}
+
+/** appended to the system prompt so the model does not fall back to the prompt's language */
+export function languagePrompt(language: string, detected: boolean): string {
+	const name = languageName(language);
+	return detected
+		? `The user is speaking ${name}. Answer in ${name}, and switch language whenever the user does.`
+		: `The user speaks ${name}. Always answer in ${name}.`;
+}
+
+/** the language most segments of a turn were spoken in */
+export function mostFrequentLanguage(languages: string[]): string | null {
+	const counts = new Map<string, number>();
+	languages.forEach((language) => counts.set(language, (counts.get(language) ?? 0) + 1));
+	return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
@@ -0,0 +1,208 @@
+import { DurableObject } from 'cloudflare:workers';
+import { z } from 'zod';
+import type { Turn } from './conversation';
+import { defineTool, ToolDefinition } from './tools';
+
+export const USER_ID_PATTERN = /^[\w-]{8,64}$/;
+
+// the prompt carries every memory, the oldest extracted ones make room for new ones
+const MAX_MEMORIES = 200;
+const MAX_MEMORY_CHARS = 500;
+// facts taken from one session at most, a chatty session must not flood the store
+const MAX_EXTRACTED = 10;
+// the end of a long session is enough to find what is worth keeping
+const MAX_EXTRACTION_CHARS = 20_000;
+
+const EXTRACTION_PROMPT =
+	'You pick out lasting facts about the user from a conversation between the user and an AI assistant. ' +
+	'Keep what will still matter in a future conversation: their name, people in their life, work, where they live, preferences, goals and ongoing projects. ' +
+	'Leave out anything temporary, anything about the assistant, and facts already known. ' +
+	'Reply with only a JSON array of short third-person statements in English, e.g. ["The user\'s name is Ana.", "The user prefers metric units."], or [] when there is nothing new.';
+
+export interface Memory {
+	id: number;
+	text: string;
+	/** `explicit` when the user asked to remember it, `extracted` when it was picked out of a conversation */
+	source: 'explicit' | 'extracted';
+	createdAt: number;
+}
+
+type MemoryRow = { id: number; text: string; source: string; created_at: number };
+
+/** What the assistant remembers about one user across sessions, one Durable Object per user id */
+export class UserMemory extends DurableObject<Env> {
+	private sql: SqlStorage;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.sql = ctx.storage.sql;
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS memories (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			text TEXT NOT NULL,
+			source TEXT NOT NULL,
+			created_at INTEGER NOT NULL
+		)`);
+	}
+
+	listMemories(): Memory[] {
+		return this.sql
+			.exec<MemoryRow>('SELECT * FROM memories ORDER BY id')
+			.toArray()
+			.map(({ id, text, source, created_at }) => ({ id, text, source: source as Memory['source'], createdAt: created_at }));
+	}
+
+	/** the memories that were added, a fact already stored is skipped */
+	addMemories(texts: string[], source: Memory['source']): Memory[] {
+		const known = new Set(this.listMemories().map((memory) => normalize(memory.text)));
+		const added: Memory[] = [];
+		for (const text of texts.map((text) => text.trim().slice(0, MAX_MEMORY_CHARS))) {
+			if (!text || known.has(normalize(text))) continue;
+			known.add(normalize(text));
+			const createdAt = Date.now();
+			const [{ id }] = this.sql
+				.exec<{ id: number }>('INSERT INTO memories (text, source, created_at) VALUES (?, ?, ?) RETURNING id', text, source, createdAt)
+				.toArray();
+			added.push({ id, text, source, createdAt });
+		}
+		// what the user asked to remember outlives what was extracted
+		this.sql.exec(
+			`DELETE FROM memories WHERE id IN (SELECT id FROM memories ORDER BY source = 'explicit', id LIMIT max(0, (SELECT COUNT(*) FROM memories) - ?))`,
+			MAX_MEMORIES
+		);
+		return added;
+	}
+
+	/** how many of the memories existed */
+	deleteMemories(ids: number[]): number {
+		if (!ids.length) return 0;
+		return this.sql.exec(`DELETE FROM memories WHERE id IN (${ids.map(() => '?').join(', ')})`, ...ids).rowsWritten;
+	}
+
+	clearMemories(): number {
+		return this.sql.exec('DELETE FROM memories').rowsWritten;
+	}
+}
+
+export function getUserMemory(env: Env, user: string): DurableObjectStub<UserMemory> {
+	return env.USER_MEMORY.get(env.USER_MEMORY.idFromName(user));
+}
+
+/** one session's view of its user's memory */
+export interface SessionMemory {
+	/** what the system prompt tells the model, kept current by the memory tools */
+	readonly memories: Memory[];
+	/** `remember` and `forget` for explicit requests */
+	readonly tools: ToolDefinition[];
+	/** never throws, a session without its memories still works */
+	load(): Promise<void>;
+	/** stores the lasting facts the user mentioned in these turns */
+	extract(turns: Turn[]): Promise<void>;
+}
+
+/**
+ * Memory is kept per user id (`?user=`) unless `MEMORY` (or `?memory=`) is off,
+ * returns null then or when the session has no user.
+ */
+export function createSessionMemory(env: Env, user: string | null, requested?: string | null): SessionMemory | null {
+	const mode = requested || env.MEMORY || 'on';
+	if (mode !== 'on' || !user) return null;
+	const store = getUserMemory(env, user);
+	const memories: Memory[] = [];
+	const model = env.MEMORY_MODEL || '@cf/meta/llama-3.2-3b-instruct';
+
+	const remember = defineTool({
+		name: 'remember',
+		description: 'Stores a fact about the user for future conversations. Use it when the user asks you to remember something.',
+		parameters: z.object({
+			fact: z.string().min(1).max(MAX_MEMORY_CHARS).describe('short third-person statement, e.g. "The user\'s daughter is called Mia."'),
+		}),
+		execute: async ({ fact }) => {
+			const added = await store.addMemories([fact], 'explicit');
+			memories.push(...added);
+			return { remembered: fact };
+		},
+	});
+	const forget = defineTool({
+		name: 'forget',
+		description: 'Deletes facts you remember about the user when they ask you to forget them.',
+		parameters: z.object({
+			ids: z.array(z.number().int()).min(1).describe('numbers of the memories as listed in the system prompt'),
+		}),
+		execute: async ({ ids }) => {
+			const forgotten = await store.deleteMemories(ids);
+			const remaining = memories.filter((memory) => !ids.includes(memory.id));
+			memories.splice(0, memories.length, ...remaining);
+			return { forgotten };
+		},
+	});
+
+	return {
+		memories,
+		tools: [remember, forget],
+		load: async () => {
+			try {
+				memories.splice(0, memories.length, ...(await store.listMemories()));
+				console.log(`Loaded ${memories.length} memories of user ${user}`);
+			} catch (error) {
+				console.error(`Failed to load memories of user ${user}:`, error);
+			}
+		},
+		extract: async (turns) => {
+			if (!turns.some((turn) => turn.role === 'user' && turn.text)) return;
+			const transcript = turns
+				.filter((turn) => turn.text)
+				.map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`)
+				.join('\n')
+				.slice(-MAX_EXTRACTION_CHARS);
+			try {
+				// other sessions of the user may have remembered or forgotten things since this one loaded
+				memories.splice(0, memories.length, ...(await store.listMemories()));
+				const known = memories.map((memory) => `- ${memory.text}`).join('\n') || 'nothing';
+				const result = await env.AI.run(model as '@cf/meta/llama-3.2-3b-instruct', {
+					messages: [
+						{ role: 'system', content: EXTRACTION_PROMPT },
+						{ role: 'user', content: `Already known:\n${known}\n\nConversation:\n${transcript}` },
+					],
+					max_tokens: 500,
+					temperature: 0,
+				});
+				// not streamed, so the answer is the object with `response`
+				const facts = parseFacts((result instanceof ReadableStream ? '' : result.response) ?? '').slice(0, MAX_EXTRACTED);
+				const added = facts.length ? await store.addMemories(facts, 'extracted') : [];
+				memories.push(...added);
+				console.log(`Remembered ${added.length} new facts about user ${user}`);
+			} catch (error) {
+				console.error(`Failed to extract memories of user ${user}:`, error);
+			}
+		},
+	};
+}
+
+/** instructions for the model with the user's memories, numbered for `forget` */
+export function memoryPrompt(memories: Memory[]): string {
+	const known = memories.map(({ id, text }) => `#${id}: ${text}`).join('\n');
+	return (
+		'You remember the user from earlier conversations. Use what you know naturally, without listing it. ' +
+		'When the user asks you to remember something, call `remember`; when they ask you to forget something, call `forget` with its numbers.' +
+		(known ? `\n\nWhat you know about the user:\n${known}` : '\n\nYou do not know anything about the user yet.')
+	);
+}
+
+// small models wrap the array in prose or code fences now and then
+function parseFacts(response: string): string[] {
+	const json = response.slice(response.indexOf('['), response.lastIndexOf(']') + 1);
+	try {
+		const parsed: unknown = JSON.parse(json);
+		return Array.isArray(parsed) ? parsed.filter((fact): fact is string => typeof fact === 'string' && fact.trim() !== '') : [];
+	} catch {
+		console.warn('Memory extraction did not return a JSON array:', response);
+		return [];
+	}
+}
+
+function normalize(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, ' ')
+		.trim();
+}
@@ -0,0 +1,62 @@
+import PQueue from 'p-queue';
+
+/**
+ * Runs tasks concurrently on a bounded PQueue but hands their results to `deliver`
+ * strictly in the order they were added. Each task gets a sequence number that keeps
+ * increasing for the lifetime of the queue.
+ */
+export class OrderedTaskQueue<T> {
+	private queue: PQueue;
+	private nextSeq = 0;
+	private nextToDeliver = 0;
+	private settled = new Map<number, { ok: true; value: T } | { ok: false; error: unknown }>();
+
+	constructor(
+		concurrency: number,
+		private deliver: (value: T, seq: number) => void
+	) {
+		this.queue = new PQueue({ concurrency });
+	}
+
+	add(task: (seq: number) => Promise<T>): number {
+		const seq = this.nextSeq++;
+		this.queue.add(async () => {
+			let result: { ok: true; value: T } | { ok: false; error: unknown };
+			try {
+				result = { ok: true, value: await task(seq) };
+			} catch (error) {
+				result = { ok: false, error };
+			}
+			// tasks that were running when the queue got cleared are dropped
+			if (seq < this.nextToDeliver) return;
+			// a failed task must not block the ones queued behind it
+			if (!result.ok) console.error(`Ordered task ${seq} failed:`, result.error);
+			this.settled.set(seq, result);
+			this.drain();
+		});
+		return seq;
+	}
+
+	/**
+	 * Drops every task that has not been delivered yet. Running tasks still finish,
+	 * but their results are discarded, and sequence numbers keep increasing.
+	 */
+	clear(): void {
+		this.queue.clear();
+		this.settled.clear();
+		this.nextToDeliver = this.nextSeq;
+	}
+
+	onIdle(): Promise<void> {
+		return this.queue.onIdle();
+	}
+
+	private drain(): void {
+		let result;
+		while ((result = this.settled.get(this.nextToDeliver))) {
+			this.settled.delete(this.nextToDeliver);
+			if (result.ok) this.deliver(result.value, this.nextToDeliver);
+			this.nextToDeliver++;
+		}
+	}
+}
@@ -0,0 +1,95 @@
+import { DurableObject } from 'cloudflare:workers';
+import { z } from 'zod';
+import { LANGUAGE_PATTERN } from './language';
+import { isValidTimezone } from './utils';
+
+export const PERSONA_NAME_PATTERN = /^[\w-]{1,64}$/;
+
+/**
+ * One assistant: what it is told, how it sounds and listens, and which model answers.
+ * Anything left out falls back to the default persona.
+ */
+export const Persona = z.object({
+	name: z.string().regex(PERSONA_NAME_PATTERN),
+	description: z.string().max(500).optional(),
+	/** system prompt, `{{date}}`, `{{time}}` and `{{timezone}}` are filled in for the user's timezone */
+	prompt: z.string().min(1).max(20_000).optional(),
+	/** spoken when a conversation starts */
+	greeting: z.string().max(1000).optional(),
+	/** Deepgram Aura voice, e.g. `aura-luna-en` */
+	voice: z.string().optional(),
+	/** Deepgram STT model, e.g. `nova-3-general` */
+	sttModel: z.string().optional(),
+	/** BCP-47 language the user speaks, also picks the Workers AI STT and TTS language. `auto` detects it */
+	language: z.string().regex(LANGUAGE_PATTERN).optional(),
+	/** Workers AI text generation model */
+	model: z.string().optional(),
+	temperature: z.number().min(0).max(2).optional(),
+	topP: z.number().gt(0).max(1).optional(),
+	maxTokens: z.number().int().positive().optional(),
+});
+export type Persona = z.infer<typeof Persona>;
+export type ResolvedPersona = Persona & Required<Pick<Persona, 'prompt' | 'voice' | 'sttModel' | 'language' | 'model'>>;
+
+export const DEFAULT_PERSONA: ResolvedPersona = {
+	name: 'default',
+	prompt:
+		'You are a helpful AI assistant in a voice conversation with the user. Keep your responses conversational and concise. Do not identify yourself as any specific company or brand.',
+	voice: 'aura-arcas-en',
+	sttModel: 'nova-3-general',
+	language: 'en-US',
+	model: '@cf/meta/llama-4-scout-17b-16e-instruct',
+};
+
+/**
+ * Persona definitions managed through `/api/personas`, kept in one Durable Object.
+ * A stored persona named `default` replaces the built-in one.
+ */
+export class PersonaStore extends DurableObject<Env> {
+	async listPersonas(): Promise<Persona[]> {
+		const personas = await this.ctx.storage.list<Persona>({ prefix: 'persona:' });
+		return [...personas.values()];
+	}
+
+	async getPersona(name: string): Promise<Persona | null> {
+		return (await this.ctx.storage.get<Persona>(`persona:${name}`)) ?? null;
+	}
+
+	async putPersona(persona: Persona): Promise<void> {
+		await this.ctx.storage.put(`persona:${persona.name}`, persona);
+	}
+
+	/** false when there is no such persona */
+	async deletePersona(name: string): Promise<boolean> {
+		return this.ctx.storage.delete(`persona:${name}`);
+	}
+}
+
+export function getPersonaStore(env: Env): DurableObjectStub<PersonaStore> {
+	return env.PERSONAS.get(env.PERSONAS.idFromName('default'));
+}
+
+/** the persona filled up with the defaults, null when no persona of that name exists */
+export async function loadPersona(env: Env, name: string): Promise<ResolvedPersona | null> {
+	let stored: Persona | null = null;
+	try {
+		stored = await getPersonaStore(env).getPersona(name);
+	} catch (error) {
+		console.error(`Failed to load persona ${name}:`, error);
+	}
+	if (!stored) return name === DEFAULT_PERSONA.name ? DEFAULT_PERSONA : null;
+	return { ...DEFAULT_PERSONA, ...stored };
+}
+
+/** the persona's prompt with its placeholders filled in */
+export function renderPrompt(persona: ResolvedPersona, timezone: string): string {
+	// an unknown timezone would make every answer fail
+	if (!isValidTimezone(timezone)) timezone = 'UTC';
+	const now = new Date();
+	const values: Record<string, string> = {
+		date: now.toLocaleDateString('en-US', { timeZone: timezone, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+		time: now.toLocaleTimeString('en-US', { timeZone: timezone, hour: 'numeric', minute: '2-digit' }),
+		timezone,
+	};
+	return persona.prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
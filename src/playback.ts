@@ -0,0 +1,97 @@
+import type { PlaybackMessage } from './protocol';
+import type { Conversation, Turn } from './conversation';
+
+interface SpokenSentence {
+	turn: Turn;
+	/** where the sentence starts in the turn's text and audio */
+	offset: number;
+	audioOffsetMs: number;
+	text: string;
+	durationMs: number;
+	started: boolean;
+}
+
+/**
+ * Keeps assistant turns in line with what the user actually heard. Sentences are
+ * appended to their turn when their audio is sent, then the turn is cut back again
+ * when the client reports that playback was interrupted.
+ */
+export class PlaybackTracker {
+	/** total time the client spent playing assistant audio */
+	speakingMs = 0;
+	private sentences = new Map<number, SpokenSentence>();
+	// streamed audio arrives before its sentence is complete, durations are summed up front
+	private streamedMs = new Map<number, number>();
+
+	constructor(private conversation: Conversation) {}
+
+	addAudio(seq: number, durationMs: number): void {
+		this.streamedMs.set(seq, (this.streamedMs.get(seq) ?? 0) + durationMs);
+	}
+
+	record(seq: number, turn: Turn, text: string, durationMs?: number): void {
+		const offset = turn.text.length;
+		const audioOffsetMs = turn.audioMs;
+		const sentenceMs = durationMs ?? this.streamedMs.get(seq) ?? 0;
+		this.conversation.appendText(turn, text, sentenceMs);
+		this.sentences.set(seq, { turn, offset, audioOffsetMs, text, durationMs: sentenceMs, started: false });
+		this.streamedMs.delete(seq);
+	}
+
+	handle({ seq, event, offsetMs }: PlaybackMessage): void {
+		const sentence = this.sentences.get(seq);
+		if (!sentence) return;
+
+		if (event === 'started') {
+			sentence.started = true;
+			return;
+		}
+
+		this.sentences.delete(seq);
+		if (event === 'finished') {
+			this.speakingMs += sentence.durationMs;
+			return;
+		}
+
+		// interrupted: keep the part that was heard, drop everything queued after it
+		const heardMs = Math.min(offsetMs ?? 0, sentence.durationMs || Infinity);
+		this.speakingMs += heardMs;
+		const heard = truncateToHeard(sentence.text, heardMs, sentence.durationMs);
+		this.cut(sentence, heard, heardMs);
+		for (const [laterSeq, later] of this.sentences) {
+			if (laterSeq > seq && !later.started) {
+				// later sentences of the same turn went with the cut above
+				if (later.turn !== sentence.turn) this.cut(later, '', 0);
+				this.sentences.delete(laterSeq);
+			}
+		}
+		console.log(`Playback of #${seq} interrupted at ${heardMs}ms, turn keeps: "${sentence.turn.text}"`);
+	}
+
+	reset(): void {
+		this.sentences.clear();
+		this.streamedMs.clear();
+	}
+
+	/** shortens the sentence's turn to everything before it plus `heard` */
+	private cut({ turn, offset, audioOffsetMs }: SpokenSentence, heard: string, heardMs: number): void {
+		const text = [turn.text.slice(0, offset), heard].filter(Boolean).join(' ');
+		if (text) {
+			this.conversation.update(turn, { text, audioMs: audioOffsetMs + heardMs, interrupted: true });
+		} else {
+			this.conversation.remove(turn);
+		}
+	}
+}
+
+/**
+ * Cuts `text` down to the words spoken in the first `heardMs` of a `durationMs` clip,
+ * assuming an even speaking rate. Returns '' when nothing was heard.
+ */
+export function truncateToHeard(text: string, heardMs: number, durationMs: number): string {
+	if (!durationMs || heardMs >= durationMs) return text;
+	const words = text.split(/\s+/).filter(Boolean);
+	const heardWords = Math.floor(words.length * (heardMs / durationMs));
+	if (heardWords === 0) return '';
+	return `${words.slice(0, heardWords).join(' ')}...`;
+}
@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import { LANGUAGE_PATTERN } from './language';
+import { PERSONA_NAME_PATTERN } from './persona';
+import { TRANSCRIPT_FORMATS } from './transcript';
+import { isValidTimezone } from './utils';
+
+/**
+ * The client ↔ Durable Object WebSocket protocol. JSON messages are described here,
+ * AI audio travels as binary frames (see `audio-frame.ts`) and user audio as binary
+ * WAV buffers. Bump PROTOCOL_VERSION on any breaking change to either direction.
+ */
+export const PROTOCOL_VERSION = 1;
+
+// client → server
+
+export const HelloMessage = z.object({
+	type: z.literal('hello'),
+	version: z.number().int(),
+	/** IANA timezone of the user, e.g. for the date and time tool */
+	timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+});
+
+export const CommandMessage = z.object({
+	type: z.literal('cmd'),
+	data: z.enum(['clear', 'interrupt']),
+});
+
+/** reports what the user actually heard of the audio with sequence id `seq` */
+export const PlaybackMessage = z.object({
+	type: z.literal('playback'),
+	seq: z.number().int().nonnegative(),
+	event: z.enum(['started', 'finished', 'interrupted']),
+	/** how far into the audio playback got, required for `interrupted` */
+	offsetMs: z.number().nonnegative().optional(),
+});
+export type PlaybackMessage = z.infer<typeof PlaybackMessage>;
+
+/** asks for the session's transcript, answered with an `export` message */
+export const ExportRequestMessage = z.object({
+	type: z.literal('export'),
+	format: z.enum(TRANSCRIPT_FORMATS),
+});
+
+/**
+ * switches the session to another persona, answered with a `persona` message, to a voice
+ * from `/api/voices`, answered with a `voice` message, and/or to another language or
+ * `auto`, answered with a `language` message
+ */
+export const ConfigureMessage = z
+	.object({
+		type: z.literal('configure'),
+		persona: z.string().regex(PERSONA_NAME_PATTERN).optional(),
+		voice: z.string().max(100).optional(),
+		language: z.string().regex(LANGUAGE_PATTERN).optional(),
+	})
+	.refine((message) => message.persona || message.voice || message.language, 'Configure a persona, a voice or a language');
+
+export const ClientMessage = z.discriminatedUnion('type', [
+	HelloMessage,
+	CommandMessage,
+	PlaybackMessage,
+	ExportRequestMessage,
+	ConfigureMessage,
+]);
+export type ClientMessage = z.infer<typeof ClientMessage>;
+
+// server → client
+
+export const ServerHelloMessage = z.object({
+	type: z.literal('hello'),
+	version: z.number().int(),
+	/** reconnect with `/websocket?session=<sessionId>` to resume this conversation */
+	sessionId: z.string(),
+});
+
+/** the stored conversation, sent right after `hello` when resuming a session */
+export const HistoryMessage = z.object({
+	type: z.literal('history'),
+	turns: z.array(
+		z.object({
+			id: z.string(),
+			role: z.enum(['user', 'assistant']),
+			text: z.string(),
+			startedAt: z.number(),
+			endedAt: z.number().nullable(),
+			interrupted: z.boolean(),
+		})
+	),
+});
+
+/** the persona the session talks to, sent on connect and after every `configure` */
+export const PersonaMessage = z.object({
+	type: z.literal('persona'),
+	name: z.string(),
+	description: z.string().optional(),
+});
+
+/** the voice the assistant speaks with, sent on connect and after a voice was configured */
+export const VoiceMessage = z.object({
+	type: z.literal('voice'),
+	voice: z.string(),
+	/**
+	 * when a configured voice is first heard: per-sentence synthesis switches at the next sentence,
+	 * streaming TTS only reconnects once the answer being spoken is over
+	 */
+	appliesFrom: z.enum(['next_sentence', 'next_answer']).optional(),
+});
+
+/**
+ * the language the session listens for (`auto` or a BCP-47 tag) and, while auto-detecting,
+ * the one the user was last heard speaking. Sent on connect, after `configure` and when
+ * the user switches language
+ */
+export const LanguageMessage = z.object({
+	type: z.literal('language'),
+	language: z.string(),
+	detected: z.string().nullable(),
+});
+
+export const TranscriptMessage = z.object({
+	type: z.literal('text'),
+	text: z.string(),
+	interim: z.boolean(),
+});
+
+export const AssistantTextMessage = z.object({
+	type: z.literal('ai_text'),
+	seq: z.number().int().nonnegative(),
+	text: z.string(),
+});
+
+export const ExportMessage = z.object({
+	type: z.literal('export'),
+	format: z.enum(TRANSCRIPT_FORMATS),
+	filename: z.string(),
+	contentType: z.string(),
+	content: z.string(),
+});
+
+/** knowledge base documents the next answer draws on, sent before its first sentence */
+export const SourcesMessage = z.object({
+	type: z.literal('sources'),
+	sources: z.array(
+		z.object({
+			documentId: z.string(),
+			title: z.string(),
+			source: z.string().nullable(),
+			score: z.number(),
+		})
+	),
+});
+
+export const ErrorCode = z.enum([
+	'invalid_message',
+	'unsupported_version',
+	'tts_failed',
+	'unknown_persona',
+	'unknown_voice',
+	'voice_unavailable',
+	'rate_limited',
+]);
+export type ErrorCode = z.infer<typeof ErrorCode>;
+
+export const ErrorMessage = z.object({
+	type: z.literal('error'),
+	code: ErrorCode,
+	message: z.string(),
+	seq: z.number().int().nonnegative().optional(),
+	/** `rate_limited`: when trying again can succeed */
+	retryAfterMs: z.number().int().nonnegative().optional(),
+});
+
+export const ServerMessage = z.discriminatedUnion('type', [
+	ServerHelloMessage,
+	HistoryMessage,
+	PersonaMessage,
+	VoiceMessage,
+	LanguageMessage,
+	TranscriptMessage,
+	AssistantTextMessage,
+	ExportMessage,
+	SourcesMessage,
+	ErrorMessage,
+]);
+export type ServerMessage = z.infer<typeof ServerMessage>;
+
+export type ParseResult = { success: true; message: ClientMessage } | { success: false; error: z.infer<typeof ErrorMessage> };
+
+/**
+ * Parses and validates one inbound text frame. Never throws, malformed input comes
+ * back as the `error` reply to send to the client.
+ */
+export function parseClientMessage(raw: string): ParseResult {
+	let json: unknown;
+	try {
+		json = JSON.parse(raw);
+	} catch {
+		return { success: false, error: { type: 'error', code: 'invalid_message', message: 'Message is not valid JSON' } };
+	}
+
+	const result = ClientMessage.safeParse(json);
+	if (!result.success) {
+		return { success: false, error: { type: 'error', code: 'invalid_message', message: z.prettifyError(result.error) } };
+	}
+	return { success: true, message: result.data };
+}
+
+export function sendMessage(ws: WebSocket, message: ServerMessage): void {
+	ws.send(JSON.stringify(message));
+}
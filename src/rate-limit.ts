@@ -0,0 +1,245 @@
+import { DurableObject } from 'cloudflare:workers';
+
+/** a limit the session ran into, sent to the client as a `rate_limited` error before the socket is closed */
+export interface RateLimitExceeded {
+	message: string;
+	/** when trying again can succeed, null for limits that free up when another socket closes */
+	retryAfterMs: number | null;
+}
+
+// an open socket renews its slot, a slot not renewed for this long belongs to a session that crashed
+const LEASE_TTL_MS = 150_000;
+const LEASE_RENEW_MS = 60_000;
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Counters of one user or one IP, a Durable Object per key so the limits hold across
+ * sessions and locations. Concurrent sockets are leases, usage is a log over a sliding window.
+ */
+export class RateLimiter extends DurableObject<Env> {
+	private sql: SqlStorage;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.sql = ctx.storage.sql;
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS leases (
+			kind TEXT NOT NULL,
+			id TEXT NOT NULL,
+			expires_at INTEGER NOT NULL,
+			PRIMARY KEY (kind, id)
+		)`);
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS usage (
+			kind TEXT NOT NULL,
+			amount REAL NOT NULL,
+			at INTEGER NOT NULL
+		)`);
+		this.sql.exec('CREATE INDEX IF NOT EXISTS usage_kind_at ON usage (kind, at)');
+	}
+
+	/** takes one of `max` slots of `kind` for `id`, false when all of them are held */
+	acquire(kind: string, id: string, max: number): boolean {
+		const now = Date.now();
+		this.sql.exec('DELETE FROM leases WHERE expires_at < ?', now);
+		const [{ held }] = this.sql
+			.exec<{ held: number }>('SELECT COUNT(*) AS held FROM leases WHERE kind = ? AND id != ?', kind, id)
+			.toArray();
+		if (held >= max) return false;
+		this.sql.exec('INSERT OR REPLACE INTO leases (kind, id, expires_at) VALUES (?, ?, ?)', kind, id, now + LEASE_TTL_MS);
+		return true;
+	}
+
+	renew(kind: string, id: string): void {
+		this.sql.exec('UPDATE leases SET expires_at = ? WHERE kind = ? AND id = ?', Date.now() + LEASE_TTL_MS, kind, id);
+	}
+
+	release(kind: string, id: string): void {
+		this.sql.exec('DELETE FROM leases WHERE kind = ? AND id = ?', kind, id);
+	}
+
+	/**
+	 * Records `amount` of `kind` unless the last `windowMs` would then hold more than `limit`.
+	 * Returns 0 when it was recorded, otherwise how long until enough of the window has passed.
+	 */
+	consume(kind: string, amount: number, limit: number, windowMs: number): number {
+		const now = Date.now();
+		this.sql.exec('DELETE FROM usage WHERE kind = ? AND at <= ?', kind, now - windowMs);
+		const entries = this.sql
+			.exec<{ amount: number; at: number }>('SELECT amount, at FROM usage WHERE kind = ? ORDER BY at', kind)
+			.toArray();
+		let excess = entries.reduce((sum, entry) => sum + entry.amount, 0) + amount - limit;
+		if (excess <= 0) {
+			this.sql.exec('INSERT INTO usage (kind, amount, at) VALUES (?, ?, ?)', kind, amount, now);
+			return 0;
+		}
+		// the oldest entries have to leave the window first
+		for (const entry of entries) {
+			excess -= entry.amount;
+			if (excess <= 0) return entry.at + windowMs - now;
+		}
+		return windowMs;
+	}
+
+	/** takes back the latest `amount` of `kind`, for usage another limiter rejected after this one recorded it */
+	refund(kind: string, amount: number): void {
+		this.sql.exec(
+			'DELETE FROM usage WHERE rowid = (SELECT rowid FROM usage WHERE kind = ? AND amount = ? ORDER BY at DESC, rowid DESC LIMIT 1)',
+			kind,
+			amount
+		);
+	}
+}
+
+/** the IP a request came from, as Cloudflare reports it */
+export function clientIp(request: Request): string {
+	return request.headers.get('CF-Connecting-IP') ?? 'unknown';
+}
+
+// `0` turns a limit off, a value that is not a count is a typo and gets the default
+function limitSetting(value: string | undefined, fallback: number): number {
+	const limit = Number(value || fallback);
+	if (!(limit >= 0)) {
+		console.warn(`Ignoring invalid rate limit "${value}", using ${fallback}`);
+		return fallback || Infinity;
+	}
+	return limit || Infinity;
+}
+
+function getRateLimiter(env: Env, key: string): DurableObjectStub<RateLimiter> {
+	return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(key));
+}
+
+/**
+ * Counts one request of `kind` against the hourly limit of the client's IP, for endpoints that
+ * cost money without a session. Returns how long until the IP may send another, null when this
+ * one may go on. Like sessions, requests get through when the limiter fails.
+ */
+export async function limitRequest(
+	env: Env,
+	request: Request,
+	kind: string,
+	perHour: string | undefined,
+	fallback: number
+): Promise<number | null> {
+	const limit = limitSetting(perHour, fallback);
+	if ((env.RATE_LIMITING || 'on') !== 'on' || limit === Infinity) return null;
+	try {
+		const retryAfterMs = await getRateLimiter(env, `ip:${clientIp(request)}`).consume(kind, 1, limit, HOUR_MS);
+		return retryAfterMs ? Math.ceil(retryAfterMs) : null;
+	} catch (error) {
+		console.error('Rate limiter unavailable, not limiting:', error);
+		return null;
+	}
+}
+
+/** one session's limits, checked against the limiters of its user and its IP */
+export interface RateLimits {
+	/** takes the session's slots, null when it may start */
+	open(): Promise<RateLimitExceeded | null>;
+	/** counts audio the user sent */
+	addAudio(durationMs: number): Promise<RateLimitExceeded | null>;
+	/** counts an answer from the LLM */
+	addTurn(): Promise<RateLimitExceeded | null>;
+	/** frees the session's slots */
+	close(): void;
+}
+
+/**
+ * Limits sessions per user, sockets per IP, and audio seconds per minute and LLM turns per hour
+ * of both, unless `RATE_LIMITING` is off, returns null then. A session without a user holds its
+ * session slot under its IP and its usage only counts against the IP. `0` turns a single limit
+ * off. The limiters failing lets the session through.
+ */
+export function createRateLimits(env: Env, { user, ip }: { user: string | null; ip: string }): RateLimits | null {
+	if ((env.RATE_LIMITING || 'on') !== 'on') return null;
+	const maxSessions = limitSetting(env.MAX_SESSIONS_PER_USER, 3);
+	const maxSockets = limitSetting(env.MAX_SOCKETS_PER_IP, 10);
+	const audioSecondsPerMinute = limitSetting(env.AUDIO_SECONDS_PER_MINUTE, 90);
+	const turnsPerHour = limitSetting(env.LLM_TURNS_PER_HOUR, 200);
+	const audioSecondsPerMinutePerIp = limitSetting(env.AUDIO_SECONDS_PER_MINUTE_PER_IP, 300);
+	const turnsPerHourPerIp = limitSetting(env.LLM_TURNS_PER_HOUR_PER_IP, 1000);
+
+	const userLimiter = getRateLimiter(env, user ? `user:${user}` : `ip:${ip}`);
+	const ipLimiter = getRateLimiter(env, `ip:${ip}`);
+	const socketId = crypto.randomUUID();
+	let renewal: ReturnType<typeof setInterval> | undefined;
+
+	const failOpen = (error: unknown) => {
+		console.error('Rate limiter unavailable, not limiting:', error);
+		return null;
+	};
+	// without a user both limiters are the IP's, it would count everything twice
+	const consume = async (
+		kind: string,
+		amount: number,
+		windowMs: number,
+		perUser: { limit: number; message: string },
+		perIp: { limit: number; message: string }
+	): Promise<RateLimitExceeded | null> => {
+		const checks = user
+			? [
+					{ limiter: userLimiter, ...perUser },
+					{ limiter: ipLimiter, ...perIp },
+			  ]
+			: [{ limiter: ipLimiter, ...perIp }];
+		const recorded: DurableObjectStub<RateLimiter>[] = [];
+		for (const { limiter, limit, message } of checks) {
+			if (limit === Infinity) continue;
+			const retryAfterMs = await limiter.consume(kind, amount, limit, windowMs);
+			if (retryAfterMs) {
+				// a rejected answer or chunk of audio counts against neither limit
+				await Promise.all(recorded.map((limiter) => limiter.refund(kind, amount)));
+				return { message, retryAfterMs: Math.ceil(retryAfterMs) };
+			}
+			recorded.push(limiter);
+		}
+		return null;
+	};
+
+	return {
+		open: async () => {
+			try {
+				if (maxSessions !== Infinity && !(await userLimiter.acquire('session', socketId, maxSessions))) {
+					return { message: `You already have ${maxSessions} conversations open. Close one and try again.`, retryAfterMs: null };
+				}
+				if (maxSockets !== Infinity && !(await ipLimiter.acquire('socket', socketId, maxSockets))) {
+					await userLimiter.release('session', socketId);
+					return { message: `Your network already has ${maxSockets} conversations open. Close one and try again.`, retryAfterMs: null };
+				}
+			} catch (error) {
+				return failOpen(error);
+			}
+			renewal = setInterval(() => {
+				Promise.all([userLimiter.renew('session', socketId), ipLimiter.renew('socket', socketId)]).catch((error) =>
+					console.error('Failed to renew rate limit slots:', error)
+				);
+			}, LEASE_RENEW_MS);
+			return null;
+		},
+		addAudio: (durationMs) =>
+			consume(
+				'audio',
+				durationMs / 1000,
+				MINUTE_MS,
+				{ limit: audioSecondsPerMinute, message: `You sent more than ${audioSecondsPerMinute} seconds of audio in a minute.` },
+				{
+					limit: audioSecondsPerMinutePerIp,
+					message: `Your network sent more than ${audioSecondsPerMinutePerIp} seconds of audio in a minute.`,
+				}
+			).catch(failOpen),
+		addTurn: () =>
+			consume(
+				'turn',
+				1,
+				HOUR_MS,
+				{ limit: turnsPerHour, message: `You reached the limit of ${turnsPerHour} answers per hour.` },
+				{ limit: turnsPerHourPerIp, message: `Your network reached the limit of ${turnsPerHourPerIp} answers per hour.` }
+			).catch(failOpen),
+		close: () => {
+			clearInterval(renewal);
+			Promise.all([userLimiter.release('session', socketId), ipLimiter.release('socket', socketId)]).catch((error) =>
+				console.error('Failed to release rate limit slots:', error)
+			);
+		},
+	};
+}
@@ -0,0 +1,278 @@
+import { encodeWavHeader, parseWav } from './audio';
+import type { PlaybackMessage } from './protocol';
+import type { AudioEncoding } from './text-to-speech';
+
+/** segments are stored, and mixed, as 16-bit mono PCM at this rate */
+const RECORDING_SAMPLE_RATE = 16000;
+// the mix is written one second at a time so a long session never sits in memory as a whole
+const MIX_BLOCK_SAMPLES = RECORDING_SAMPLE_RATE;
+// of the WAVs written here, see `encodeWavHeader`
+const WAV_HEADER_BYTES = 44;
+// a session resumed later goes on after this much silence, however long it was away
+const MAX_SOCKET_GAP_MS = 2000;
+
+type Channel = 'user' | 'assistant';
+
+interface AssistantSegment {
+	chunks: ArrayBuffer[];
+	encoding: AudioEncoding;
+	sampleRate: number;
+	sentAt: number;
+	/** when the client reported that playback began */
+	startedAt: number | null;
+}
+
+export interface Segment {
+	key: string;
+	channel: Channel;
+	/** the recorder, one per socket, that stored the segment */
+	socket: string;
+	startedAt: number;
+	/** in samples, known from the object's size before the segment is loaded */
+	length: number;
+}
+
+export function recordingKey(sessionId: string): string {
+	return `sessions/${sessionId}/recording.wav`;
+}
+
+/**
+ * Records a session to R2. Every user utterance and every sentence the assistant spoke
+ * is stored as its own WAV under `sessions/<id>/segments/`, stamped with when it was
+ * heard. `finish()` mixes all segments of the session into one stereo WAV, the user on
+ * the left and the assistant on the right channel.
+ */
+export class SessionRecorder {
+	private assistant = new Map<number, AssistantSegment>();
+	private writes: Promise<unknown>[] = [];
+	private playbackReported = false;
+	private socketId = crypto.randomUUID();
+
+	constructor(private bucket: R2Bucket, private sessionId: string) {}
+
+	addUserAudio(wav: ArrayBuffer): void {
+		const samples = toRecordingPcm(wav, 'wav', RECORDING_SAMPLE_RATE);
+		if (!samples) return;
+		// the client VAD sends an utterance once it ended
+		this.store('user', Date.now() - samplesToMs(samples.length), samples);
+	}
+
+	addAssistantAudio(seq: number, audio: ArrayBuffer, encoding: AudioEncoding, sampleRate: number): void {
+		const segment = this.assistant.get(seq);
+		if (segment) {
+			segment.chunks.push(audio);
+		} else {
+			this.assistant.set(seq, { chunks: [audio], encoding, sampleRate, sentAt: Date.now(), startedAt: null });
+		}
+	}
+
+	/** places assistant audio on the timeline where the client actually played it */
+	handlePlayback({ seq, event, offsetMs }: PlaybackMessage): void {
+		this.playbackReported = true;
+		const segment = this.assistant.get(seq);
+		if (!segment) return;
+
+		if (event === 'started') {
+			segment.startedAt = Date.now();
+			return;
+		}
+		this.assistant.delete(seq);
+		this.storeAssistant(segment, event === 'interrupted' ? offsetMs ?? 0 : undefined);
+	}
+
+	async finish(): Promise<void> {
+		for (const segment of this.assistant.values()) {
+			// audio that never started playing was cut off by the user, unless the client does not report playback at all
+			if (segment.startedAt !== null || !this.playbackReported) this.storeAssistant(segment);
+		}
+		this.assistant.clear();
+		await Promise.allSettled(this.writes);
+
+		try {
+			await this.mix();
+		} catch (error) {
+			console.error(`Failed to mix recording of session ${this.sessionId}:`, error);
+		}
+	}
+
+	private storeAssistant(segment: AssistantSegment, heardMs?: number): void {
+		const samples = toRecordingPcm(concatBuffers(segment.chunks), segment.encoding, segment.sampleRate);
+		if (!samples) return;
+		this.store(
+			'assistant',
+			segment.startedAt ?? segment.sentAt,
+			heardMs === undefined ? samples : samples.subarray(0, msToSamples(heardMs))
+		);
+	}
+
+	private store(channel: Channel, startedAt: number, samples: Int16Array): void {
+		if (!samples.length) return;
+		const key = `sessions/${this.sessionId}/segments/${startedAt}-${channel}-${crypto.randomUUID()}.wav`;
+		const wav = new Blob([encodeWavHeader(samples.byteLength, RECORDING_SAMPLE_RATE, 1), samples]);
+		this.writes.push(
+			this.bucket
+				.put(key, wav, {
+					httpMetadata: { contentType: 'audio/wav' },
+					customMetadata: { channel, socket: this.socketId, startedAt: String(startedAt) },
+				})
+				.catch((error) => console.error(`Failed to store recording segment ${key}:`, error))
+		);
+	}
+
+	private async mix(): Promise<void> {
+		const segments = await this.listSegments();
+		if (!segments.length) return;
+
+		const placed = placeSegments(segments);
+		const totalSamples = Math.max(...placed.map((segment) => segment.offset + segment.length));
+		const dataLength = totalSamples * 4; // two 16-bit channels
+
+		const { readable, writable } = new FixedLengthStream(WAV_HEADER_BYTES + dataLength);
+		const upload = this.bucket.put(recordingKey(this.sessionId), readable, { httpMetadata: { contentType: 'audio/wav' } });
+		const writer = writable.getWriter();
+		await writer.write(new Uint8Array(encodeWavHeader(dataLength, RECORDING_SAMPLE_RATE, 2)));
+
+		// a segment is loaded once the mix reaches it and dropped once it is written, only the ones
+		// overlapping the current block are in memory
+		let loaded: Array<(typeof placed)[number] & { samples: Int16Array }> = [];
+		let next = 0;
+		for (let blockStart = 0; blockStart < totalSamples; blockStart += MIX_BLOCK_SAMPLES) {
+			const blockLength = Math.min(MIX_BLOCK_SAMPLES, totalSamples - blockStart);
+			const blockEnd = blockStart + blockLength;
+			for (; next < placed.length && placed[next].offset < blockEnd; next++) {
+				const samples = await this.loadSamples(placed[next].key);
+				if (samples) loaded.push({ ...placed[next], samples });
+			}
+			const frames = new Int16Array(blockLength * 2);
+			for (const segment of loaded) {
+				const from = Math.max(blockStart, segment.offset);
+				const to = Math.min(blockEnd, segment.offset + segment.samples.length);
+				const channel = segment.channel === 'user' ? 0 : 1;
+				for (let i = from; i < to; i++) {
+					const index = (i - blockStart) * 2 + channel;
+					frames[index] = Math.max(-32768, Math.min(32767, frames[index] + segment.samples[i - segment.offset]));
+				}
+			}
+			await writer.write(new Uint8Array(frames.buffer));
+			loaded = loaded.filter((segment) => segment.offset + segment.samples.length > blockEnd);
+		}
+		await writer.close();
+		await upload;
+		console.log(`Recording of session ${this.sessionId} mixed from ${segments.length} segments (${samplesToMs(totalSamples)}ms)`);
+	}
+
+	private async listSegments(): Promise<Segment[]> {
+		const segments: Segment[] = [];
+		let cursor: string | undefined;
+		do {
+			const listed = await this.bucket.list({ prefix: `sessions/${this.sessionId}/segments/`, cursor, include: ['customMetadata'] });
+			for (const object of listed.objects) {
+				segments.push({
+					key: object.key,
+					channel: object.customMetadata?.channel === 'user' ? 'user' : 'assistant',
+					socket: object.customMetadata?.socket ?? '',
+					startedAt: Number(object.customMetadata?.startedAt),
+					length: Math.max(0, Math.floor((object.size - WAV_HEADER_BYTES) / 2)),
+				});
+			}
+			cursor = listed.truncated ? listed.cursor : undefined;
+		} while (cursor);
+		return segments;
+	}
+
+	private async loadSamples(key: string): Promise<Int16Array | null> {
+		const body = await this.bucket.get(key);
+		return body && toRecordingPcm(await body.arrayBuffer(), 'wav', RECORDING_SAMPLE_RATE);
+	}
+}
+
+/**
+ * Recording is opt-in via `RECORDING=on` (or `?record=on`) and needs the `RECORDINGS`
+ * R2 bucket, returns null otherwise.
+ */
+export function createRecorder(env: Env, sessionId: string, requested?: string | null): SessionRecorder | null {
+	const mode = requested || env.RECORDING || 'off';
+	if (mode !== 'on') return null;
+	if (!env.RECORDINGS) {
+		console.warn('Recording requested but no RECORDINGS bucket is bound');
+		return null;
+	}
+	return new SessionRecorder(env.RECORDINGS, sessionId);
+}
+
+/**
+ * Puts the segments on the mix's timeline, in samples from its start and in order. Segments of one
+ * socket keep their timing, the silence between sockets is cut to MAX_SOCKET_GAP_MS.
+ */
+export function placeSegments(segments: Segment[]): Array<Segment & { offset: number }> {
+	const sockets = new Map<string, Segment[]>();
+	for (const segment of segments) sockets.set(segment.socket, [...(sockets.get(segment.socket) ?? []), segment]);
+	const start = (group: Segment[]) => Math.min(...group.map((segment) => segment.startedAt));
+	const end = (group: Segment[]) => Math.max(...group.map((segment) => segment.startedAt + samplesToMs(segment.length)));
+
+	const placed: Array<Segment & { offset: number }> = [];
+	let cut = 0; // ms of silence left out so far
+	let previousEnd: number | null = null;
+	for (const group of [...sockets.values()].sort((a, b) => start(a) - start(b))) {
+		if (previousEnd !== null) cut += Math.max(0, start(group) - previousEnd - MAX_SOCKET_GAP_MS);
+		previousEnd = Math.max(previousEnd ?? -Infinity, end(group));
+		placed.push(...group.map((segment) => ({ ...segment, offset: segment.startedAt - cut })));
+	}
+	const origin = Math.min(...placed.map((segment) => segment.offset));
+	return placed.map((segment) => ({ ...segment, offset: msToSamples(segment.offset - origin) })).sort((a, b) => a.offset - b.offset);
+}
+
+/** decodes PCM or 16-bit WAV audio to mono samples at the recording rate, MP3 cannot be decoded here */
+function toRecordingPcm(audio: ArrayBuffer, encoding: AudioEncoding, sampleRate: number): Int16Array | null {
+	const view = new DataView(audio);
+	let samples: Int16Array;
+	if (encoding === 'linear16') {
+		samples = new Int16Array(Math.floor(audio.byteLength / 2));
+		for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true);
+	} else if (encoding === 'wav') {
+		const wav = parseWav(audio);
+		if (!wav || wav.bitsPerSample !== 16) return null;
+		const frameBytes = wav.channels * 2;
+		samples = new Int16Array(Math.floor(wav.dataLength / frameBytes));
+		// keep the first channel only
+		for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(wav.dataOffset + i * frameBytes, true);
+		sampleRate = wav.sampleRate;
+	} else {
+		console.warn('MP3 audio cannot be recorded, skipping segment');
+		return null;
+	}
+	return resample(samples, sampleRate, RECORDING_SAMPLE_RATE);
+}
+
+/** linear interpolation, good enough for reviewing speech */
+function resample(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+	if (fromRate === toRate) return samples;
+	const ratio = fromRate / toRate;
+	const output = new Int16Array(Math.floor(samples.length / ratio));
+	for (let i = 0; i < output.length; i++) {
+		const position = i * ratio;
+		const index = Math.floor(position);
+		const next = samples[Math.min(index + 1, samples.length - 1)];
+		output[i] = Math.round(samples[index] + (next - samples[index]) * (position - index));
+	}
+	return output;
+}
+
+function concatBuffers(buffers: ArrayBuffer[]): ArrayBuffer {
+	if (buffers.length === 1) return buffers[0];
+	const bytes = new Uint8Array(buffers.reduce((length, buffer) => length + buffer.byteLength, 0));
+	let offset = 0;
+	for (const buffer of buffers) {
+		bytes.set(new Uint8Array(buffer), offset);
+		offset += buffer.byteLength;
+	}
+	return bytes.buffer;
+}
+
+function samplesToMs(samples: number): number {
+	return Math.round((samples / RECORDING_SAMPLE_RATE) * 1000);
+}
+
+function msToSamples(ms: number): number {
+	return Math.round((ms / 1000) * RECORDING_SAMPLE_RATE);
+}
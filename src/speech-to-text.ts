@@ -0,0 +1,135 @@
+import { DeepgramSTT } from './deepgram-tts';
+import { AUTO_LANGUAGE, MIN_LANGUAGE_PROBABILITY } from './language';
+import { arrayBufferToBase64 } from './utils';
+
+export interface TranscriptEvent {
+	transcript: string;
+	/** the text of this segment will not change anymore */
+	isFinal: boolean;
+	/** the speaker paused long enough for the provider to consider the utterance finished */
+	speechFinal: boolean;
+	/** provider's confidence in the transcript from 0 to 1, when it reports one */
+	confidence?: number;
+	/** language the segment was spoken in, only reported while auto-detecting */
+	language?: string;
+}
+
+export interface SpeechToTextListeners {
+	onTranscript: (event: TranscriptEvent) => void;
+	/** no new words for a while, ends the utterance when `speechFinal` never came */
+	onUtteranceEnd?: () => void;
+	onSpeechStarted?: () => void;
+	onError?: (error: Error) => void;
+}
+
+/**
+ * Common surface for every STT vendor so the pipeline in `VoiceSession.fetch`
+ * never has to know which one is transcribing the user.
+ */
+export interface SpeechToTextProvider {
+	readonly name: SpeechToTextProviderName;
+	connect(listeners: SpeechToTextListeners): Promise<boolean>;
+	sendAudio(audioBuffer: ArrayBuffer): void;
+	disconnect(): void;
+}
+
+export type SpeechToTextProviderName = 'deepgram' | 'workers-ai';
+
+export interface WorkersAISTTConfig {
+	ai: Ai;
+	model?: string;
+	/** Whisper detects the language of every utterance when none is given */
+	language?: string;
+}
+
+/**
+ * Workers AI has no streaming transcription, but the client VAD already sends one
+ * WAV per utterance, so every buffer is transcribed as a single final segment.
+ */
+export class WorkersAISTT implements SpeechToTextProvider {
+	readonly name = 'workers-ai';
+	private config: Required<Omit<WorkersAISTTConfig, 'language'>> & { language?: string };
+	private listeners?: SpeechToTextListeners;
+	private pending: Promise<void> = Promise.resolve();
+
+	constructor(config: WorkersAISTTConfig) {
+		this.config = {
+			model: '@cf/openai/whisper-large-v3-turbo',
+			...config,
+		};
+	}
+
+	async connect(listeners: SpeechToTextListeners): Promise<boolean> {
+		this.listeners = listeners;
+		return true;
+	}
+
+	sendAudio(audioBuffer: ArrayBuffer): void {
+		if (!this.listeners) {
+			console.warn('Workers AI STT not connected, dropping audio');
+			return;
+		}
+		// chain transcriptions so segments are reported in the order they were spoken
+		this.pending = this.pending.then(() => this.transcribe(audioBuffer));
+	}
+
+	disconnect(): void {
+		this.listeners = undefined;
+	}
+
+	private async transcribe(audioBuffer: ArrayBuffer): Promise<void> {
+		try {
+			console.log('Transcribing audio with Workers AI STT, buffer size:', audioBuffer.byteLength);
+			const result = await this.config.ai.run(this.config.model as '@cf/openai/whisper-large-v3-turbo', {
+				audio: arrayBufferToBase64(audioBuffer),
+				language: this.config.language,
+			});
+			const transcript = result?.text?.trim() || '';
+			const info = result?.transcription_info;
+			const language =
+				!this.config.language && info?.language && (info.language_probability ?? 1) >= MIN_LANGUAGE_PROBABILITY ? info.language : undefined;
+			if (transcript && this.listeners) {
+				// the client VAD already cut at the end of speech, so every buffer is a whole utterance
+				this.listeners.onTranscript({ transcript, isFinal: true, speechFinal: true, language });
+			}
+		} catch (error) {
+			console.error('Error with Workers AI STT:', error);
+			this.listeners?.onError?.(error as Error);
+		}
+	}
+}
+
+/** what the session's persona expects to hear */
+export interface SpeechToTextOptions {
+	/** Deepgram model, Workers AI always uses Whisper */
+	model?: string;
+	/** BCP-47 language, Whisper only takes the language part. `auto` detects it */
+	language?: string;
+}
+
+/**
+ * Picks the STT vendor for a session. The per-session choice wins over the
+ * deployment default in `STT_PROVIDER`, and Deepgram is only used when a key exists.
+ */
+export function createSpeechToText(env: Env, requested?: string | null, options: SpeechToTextOptions = {}): SpeechToTextProvider {
+	const name = (requested || env.STT_PROVIDER || 'deepgram') as SpeechToTextProviderName;
+	const language = options.language ?? 'en-US';
+	const detect = language === AUTO_LANGUAGE;
+
+	if (name === 'deepgram' && env.DEEPGRAM) {
+		return new DeepgramSTT({
+			apiKey: env.DEEPGRAM,
+			model: options.model ?? 'nova-3-general',
+			// Nova-3 transcribes several languages in one stream and tags every word with its language
+			language: detect ? 'multi' : language,
+			endpointing: Number(env.STT_ENDPOINTING_MS) || 300,
+			utteranceEndMs: Number(env.STT_UTTERANCE_END_MS) || 1000,
+		});
+	}
+	if (name === 'deepgram') {
+		console.warn('DEEPGRAM key missing, falling back to Workers AI STT');
+	} else if (name !== 'workers-ai') {
+		console.warn(`Unknown STT provider "${name}", falling back to Workers AI STT`);
+	}
+	return new WorkersAISTT({ ai: env.AI, language: detect ? undefined : language.split('-')[0] });
+}
@@ -0,0 +1,266 @@
+import { audioDurationMs } from './audio';
+import { DeepgramTTS } from './deepgram-tts';
+import { base64ToArrayBuffer } from './utils';
+import type { Voice } from './voices';
+
+/**
+ * `wav` and `mp3` are self-describing containers the browser can decode directly,
+ * `linear16` is headerless 16-bit little-endian PCM.
+ */
+export type AudioEncoding = 'wav' | 'mp3' | 'linear16';
+
+export interface SynthesizedAudio {
+	audio: ArrayBuffer;
+	encoding: AudioEncoding;
+	sampleRate: number;
+	durationMs: number;
+}
+
+export interface SynthesizeOptions {
+	signal?: AbortSignal;
+	timeoutMs?: number;
+}
+
+export const DEFAULT_SYNTHESIS_TIMEOUT_MS = 10000;
+
+export type TTSErrorCode = 'aborted' | 'timeout' | 'empty_audio' | 'provider_error';
+
+export class TTSError extends Error {
+	readonly name = 'TTSError';
+	constructor(
+		readonly code: TTSErrorCode,
+		readonly provider: string,
+		message: string,
+		readonly cause?: unknown
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Common surface for every TTS vendor. Implementations resolve with the audio for
+ * one chunk of text or reject with a `TTSError`, they never report results through side channels.
+ */
+export interface TextToSpeechProvider {
+	readonly name: string;
+	connect(): Promise<boolean>;
+	synthesize(text: string, options?: SynthesizeOptions): Promise<SynthesizedAudio>;
+	/** used from the next synthesis on, false when the voice belongs to another vendor */
+	setVoice(voice: Voice): boolean;
+	disconnect(): void;
+}
+
+export interface StreamingTTSListeners {
+	onAudio: (chunk: ArrayBuffer) => void;
+	onFlushed?: () => void;
+	onError?: (error: Error) => void;
+	/** the socket closed and could not reconnect, text sent since then was dropped */
+	onUnavailable?: () => void;
+}
+
+/**
+ * Incremental synthesis: text is pushed as the LLM produces it and audio chunks are
+ * reported as soon as the vendor renders them, instead of one clip per sentence.
+ */
+export interface StreamingTextToSpeechProvider {
+	readonly name: string;
+	readonly encoding: AudioEncoding;
+	readonly sampleRate: number;
+	connectStream(listeners: StreamingTTSListeners): Promise<boolean>;
+	/** used once the stream is connected again, false when the voice belongs to another vendor */
+	setVoice(voice: Voice): boolean;
+	sendText(text: string): void;
+	flush(): void;
+	/** drops everything not rendered yet, no audio or flush of it is reported afterwards */
+	clear(): void;
+	disconnect(): void;
+}
+
+/**
+ * Runs one synthesis under the caller's abort signal and timeout, mapping every
+ * failure to a `TTSError`. Vendor SDKs take no signal, so cancellation stops waiting
+ * rather than the request itself.
+ */
+export async function runSynthesis(
+	provider: string,
+	options: SynthesizeOptions,
+	synthesize: () => Promise<SynthesizedAudio>
+): Promise<SynthesizedAudio> {
+	const { signal, timeoutMs = DEFAULT_SYNTHESIS_TIMEOUT_MS } = options;
+	if (signal?.aborted) {
+		throw new TTSError('aborted', provider, 'Synthesis aborted');
+	}
+
+	let timeoutId: ReturnType<typeof setTimeout> | undefined;
+	let onAbort: (() => void) | undefined;
+	const cancelled = new Promise<never>((_, reject) => {
+		timeoutId = setTimeout(() => reject(new TTSError('timeout', provider, `Synthesis timed out after ${timeoutMs}ms`)), timeoutMs);
+		onAbort = () => reject(new TTSError('aborted', provider, 'Synthesis aborted'));
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+
+	try {
+		const result = await Promise.race([
+			synthesize().catch((error) => {
+				if (error instanceof TTSError) throw error;
+				throw new TTSError('provider_error', provider, error instanceof Error ? error.message : String(error), error);
+			}),
+			cancelled,
+		]);
+		if (result.audio.byteLength === 0) {
+			throw new TTSError('empty_audio', provider, 'No audio returned');
+		}
+		return result;
+	} finally {
+		clearTimeout(timeoutId);
+		if (onAbort) signal?.removeEventListener('abort', onAbort);
+	}
+}
+
+export type TextToSpeechProviderName = 'deepgram' | 'workers-ai';
+
+// the generated AiModels predates MeloTTS, workers-types describes it as text to speech
+declare global {
+	interface AiModels {
+		'@cf/myshell-ai/melotts': BaseAiTextToSpeech;
+	}
+}
+
+export interface WorkersAITTSConfig {
+	ai: Ai;
+	language?: string;
+}
+
+export class WorkersAITTS implements TextToSpeechProvider {
+	readonly name = 'workers-ai';
+	private config: WorkersAITTSConfig;
+
+	constructor(config: WorkersAITTSConfig) {
+		this.config = {
+			language: 'en',
+			...config,
+		};
+	}
+
+	async connect(): Promise<boolean> {
+		return true;
+	}
+
+	synthesize(text: string, options: SynthesizeOptions = {}): Promise<SynthesizedAudio> {
+		return runSynthesis(this.name, options, async () => {
+			console.log('Synthesizing text with Workers AI:', text.substring(0, 50));
+			const result = await this.config.ai.run('@cf/myshell-ai/melotts', { prompt: text, lang: this.config.language });
+			const audio = result instanceof Uint8Array ? result.slice().buffer : result?.audio ? base64ToArrayBuffer(result.audio) : null;
+			if (!audio) {
+				throw new TTSError('empty_audio', this.name, 'No audio returned from Workers AI TTS');
+			}
+			return { audio, encoding: 'mp3', sampleRate: 44100, durationMs: audioDurationMs(audio, 'mp3', 44100) };
+		});
+	}
+
+	setVoice(voice: Voice): boolean {
+		if (voice.provider !== this.name) return false;
+		// MeloTTS voices only differ in their language
+		this.config.language = voice.language.split('-')[0];
+		return true;
+	}
+
+	disconnect(): void {}
+}
+
+/**
+ * Tries each provider in order and returns the first successful synthesis, so a
+ * vendor outage degrades to the next backend instead of silence.
+ */
+export class FallbackTTS implements TextToSpeechProvider {
+	readonly name: string;
+
+	constructor(private providers: TextToSpeechProvider[]) {
+		this.name = providers.map((provider) => provider.name).join(',');
+	}
+
+	async connect(): Promise<boolean> {
+		const results = await Promise.all(this.providers.map((provider) => provider.connect()));
+		return results.some(Boolean);
+	}
+
+	async synthesize(text: string, options: SynthesizeOptions = {}): Promise<SynthesizedAudio> {
+		let lastError: unknown;
+		for (const provider of this.providers) {
+			try {
+				return await provider.synthesize(text, options);
+			} catch (error) {
+				// a cancelled turn must not spill over onto the next vendor
+				if (error instanceof TTSError && error.code === 'aborted') throw error;
+				console.warn(`TTS (${provider.name}) failed, trying next provider:`, error instanceof Error ? error.message : error);
+				lastError = error;
+			}
+		}
+		throw lastError ?? new TTSError('provider_error', this.name, 'No TTS provider configured');
+	}
+
+	setVoice(voice: Voice): boolean {
+		// every provider that can speak the voice switches, the others keep theirs as fallback
+		return this.providers.map((provider) => provider.setVoice(voice)).some(Boolean);
+	}
+
+	disconnect(): void {
+		this.providers.forEach((provider) => provider.disconnect());
+	}
+}
+
+/** how the session's persona sounds */
+export interface VoiceOptions {
+	/** Deepgram Aura voice, Workers AI has one voice per language */
+	voice?: string;
+	/** BCP-47 language, MeloTTS only takes the language part */
+	language?: string;
+}
+
+const DEFAULT_VOICE = 'aura-arcas-en';
+
+/**
+ * Builds the TTS backend for a session from a comma separated provider list, e.g.
+ * `deepgram,workers-ai` to fall back to Workers AI when Deepgram fails.
+ * The per-session choice wins over the deployment default in `TTS_PROVIDER`.
+ */
+export function createTextToSpeech(env: Env, requested?: string | null, options: VoiceOptions = {}): TextToSpeechProvider {
+	const names = (requested || env.TTS_PROVIDER || 'deepgram')
+		.split(',')
+		.map((name) => name.trim())
+		.filter(Boolean) as TextToSpeechProviderName[];
+	const language = options.language?.split('-')[0] ?? 'en';
+
+	const providers: TextToSpeechProvider[] = [];
+	for (const name of names) {
+		if (name === 'deepgram' && env.DEEPGRAM) {
+			providers.push(new DeepgramTTS({ apiKey: env.DEEPGRAM, model: options.voice ?? DEFAULT_VOICE }));
+		} else if (name === 'workers-ai') {
+			providers.push(new WorkersAITTS({ ai: env.AI, language }));
+		} else {
+			console.warn(`TTS provider "${name}" is unknown or not configured, skipping`);
+		}
+	}
+	if (providers.length === 0) {
+		providers.push(new WorkersAITTS({ ai: env.AI, language }));
+	}
+	return providers.length === 1 ? providers[0] : new FallbackTTS(providers);
+}
+
+/**
+ * Streaming is only offered by Deepgram, returns null when it is not configured so
+ * the caller can stay on per-sentence synthesis. `TTS_MODE` (or `?tts_mode=`) selects it.
+ */
+export function createStreamingTextToSpeech(
+	env: Env,
+	requestedMode?: string | null,
+	options: VoiceOptions = {}
+): StreamingTextToSpeechProvider | null {
+	const mode = requestedMode || env.TTS_MODE || 'rest';
+	if (mode !== 'stream') return null;
+	if (!env.DEEPGRAM) {
+		console.warn('DEEPGRAM key missing, streaming TTS unavailable');
+		return null;
+	}
+	return new DeepgramTTS({ apiKey: env.DEEPGRAM, model: options.voice ?? DEFAULT_VOICE });
+}
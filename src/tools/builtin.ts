@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { evaluateExpression } from './calculator';
+import { defineTool } from './registry';
+import { convertUnits } from './units';
+
+export const datetimeTool = defineTool({
+	name: 'get_datetime',
+	description: "Returns the current date and time. Uses the user's timezone unless another one is asked for.",
+	parameters: z.object({
+		timezone: z.string().optional().describe('IANA timezone such as "Europe/Prague", only when the user asks about another place'),
+	}),
+	execute: ({ timezone }, context) => {
+		const timeZone = timezone || context.timezone;
+		const now = new Date();
+		return {
+			timezone: timeZone,
+			local: new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }).format(now),
+			iso: now.toISOString(),
+		};
+	},
+});
+
+export const calculatorTool = defineTool({
+	name: 'calculate',
+	description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of doing math yourself.',
+	parameters: z.object({
+		expression: z.string().describe('e.g. "(12.5 * 4) / 3", supports + - * / % ^, sqrt, abs, round, sin, cos, tan, ln, log, pi and e'),
+	}),
+	execute: ({ expression }) => ({ expression, result: evaluateExpression(expression) }),
+});
+
+export const unitConversionTool = defineTool({
+	name: 'convert_units',
+	description: 'Converts a value between units of length, mass, volume, speed, time or temperature.',
+	parameters: z.object({
+		value: z.number(),
+		from: z.string().describe('unit to convert from, e.g. "miles", "kg", "fahrenheit"'),
+		to: z.string().describe('unit to convert to, e.g. "km", "pounds", "celsius"'),
+	}),
+	execute: ({ value, from, to }) => ({ value, from, to, result: Number(convertUnits(value, from, to).toPrecision(6)) }),
+});
+
+export const BUILTIN_TOOLS = [datetimeTool, calculatorTool, unitConversionTool];
@@ -0,0 +1,96 @@
+// a Map, so `constructor` or `toString` in an expression is an unknown token
+const FUNCTIONS = new Map<string, (value: number) => number>([
+	['sqrt', Math.sqrt],
+	['abs', Math.abs],
+	['round', Math.round],
+	['floor', Math.floor],
+	['ceil', Math.ceil],
+	['sin', Math.sin],
+	['cos', Math.cos],
+	['tan', Math.tan],
+	['ln', Math.log],
+	['log', Math.log10],
+	['exp', Math.exp],
+]);
+
+const CONSTANTS = new Map([
+	['pi', Math.PI],
+	['e', Math.E],
+]);
+
+/**
+ * Evaluates an arithmetic expression without `eval`: numbers, + - * / % ^, parentheses,
+ * the functions in FUNCTIONS and the constants pi and e. Throws on anything else.
+ */
+export function evaluateExpression(expression: string): number {
+	const tokens = expression.toLowerCase().match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|[-+*/%^()]|\S/g) ?? [];
+	let position = 0;
+
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+	const expect = (token: string) => {
+		if (next() !== token) throw new Error(`Expected "${token}" in "${expression}"`);
+	};
+
+	// sum := product (('+' | '-') product)*
+	const sum = (): number => {
+		let value = product();
+		while (peek() === '+' || peek() === '-') {
+			value = next() === '+' ? value + product() : value - product();
+		}
+		return value;
+	};
+
+	// product := unary (('*' | '/' | '%') unary)*
+	const product = (): number => {
+		let value = unary();
+		while (peek() === '*' || peek() === '/' || peek() === '%') {
+			const operator = next();
+			const right = unary();
+			value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+		}
+		return value;
+	};
+
+	// unary := ('-' | '+') unary | power, so -2^2 is -(2^2)
+	const unary = (): number => {
+		const sign = peek() === '-' || peek() === '+' ? next() : null;
+		if (sign === '-') return -unary();
+		if (sign === '+') return unary();
+		return power();
+	};
+
+	// power := atom ('^' unary)?, right associative
+	const power = (): number => {
+		const base = atom();
+		if (peek() !== '^') return base;
+		next();
+		return base ** unary();
+	};
+
+	const atom = (): number => {
+		const token = next();
+		if (token === undefined) throw new Error(`Unexpected end of "${expression}"`);
+		if (token === '(') {
+			const value = sum();
+			expect(')');
+			return value;
+		}
+		if (/^\d*\.?\d/.test(token)) return Number(token);
+		const constant = CONSTANTS.get(token);
+		if (constant !== undefined) return constant;
+		const fn = FUNCTIONS.get(token);
+		if (fn) {
+			expect('(');
+			const value = sum();
+			expect(')');
+			return fn(value);
+		}
+		throw new Error(`Unknown token "${token}" in "${expression}"`);
+	};
+
+	const result = sum();
+	if (position < tokens.length) throw new Error(`Unexpected "${peek()}" in "${expression}"`);
+	if (!Number.isFinite(result)) throw new Error(`"${expression}" has no finite result`);
+	return result;
+}
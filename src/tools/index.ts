@@ -0,0 +1,29 @@
+import { BUILTIN_TOOLS } from './builtin';
+import { ToolRegistry } from './registry';
+
+export { connectMcpServers } from './mcp';
+export type { McpConnection } from './mcp';
+export { MAX_TOOL_STEPS, ToolRegistry, defineTool } from './registry';
+export type { ToolContext, ToolDefinition } from './registry';
+
+/**
+ * Builds a session's registry from the comma separated tool names in `TOOLS`
+ * (or `?tools=`), `none` disables tool calling.
+ */
+export function createToolRegistry(env: Env, requested?: string | null): ToolRegistry {
+	const names = (requested ?? env.TOOLS ?? '')
+		.split(',')
+		.map((name) => name.trim())
+		.filter((name) => name && name !== 'none');
+
+	const registry = new ToolRegistry();
+	for (const name of names) {
+		const definition = BUILTIN_TOOLS.find((candidate) => candidate.name === name);
+		if (definition) {
+			registry.register(definition);
+		} else {
+			console.warn(`Unknown tool "${name}", skipping`);
+		}
+	}
+	return registry;
+}
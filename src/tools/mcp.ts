@@ -0,0 +1,196 @@
+import { experimental_createMCPClient, JSONRPCMessage, MCPTransport, Schema } from 'ai';
+import { z } from 'zod';
+import type { ToolDefinition } from './registry';
+
+export const McpServerConfig = z.object({
+	/** prefixes the server's tool names, `jira` turns `search` into `jira_search` */
+	name: z.string().regex(/^[a-zA-Z0-9-]+$/),
+	url: z.url(),
+	transport: z.enum(['http', 'sse']).default('http'),
+	headers: z.record(z.string(), z.string()).optional(),
+	/** tools of this server any session may use, all of them when omitted */
+	tools: z.array(z.string()).optional(),
+	/** spoken when one of the server's tools is slow */
+	progress: z.string().optional(),
+});
+export type McpServerConfig = z.infer<typeof McpServerConfig>;
+
+// a server that does not answer in time is skipped, the session must not wait on it
+const MCP_CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * Client side of the MCP Streamable HTTP transport: every JSON-RPC message is POSTed,
+ * the server answers with JSON or with an SSE stream of messages. Server initiated
+ * requests on a standalone GET stream are not supported, tools do not need them.
+ */
+export class StreamableHTTPTransport implements MCPTransport {
+	onclose?: () => void;
+	onerror?: (error: Error) => void;
+	onmessage?: (message: JSONRPCMessage) => void;
+	private sessionId?: string;
+	private abort = new AbortController();
+
+	constructor(private url: string, private headers: Record<string, string> = {}) {}
+
+	async start(): Promise<void> {}
+
+	async send(message: JSONRPCMessage): Promise<void> {
+		try {
+			const response = await fetch(this.url, {
+				method: 'POST',
+				headers: {
+					...this.headers,
+					'Content-Type': 'application/json',
+					Accept: 'application/json, text/event-stream',
+					...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+				},
+				body: JSON.stringify(message),
+				signal: this.abort.signal,
+			});
+			this.sessionId = response.headers.get('Mcp-Session-Id') ?? this.sessionId;
+			if (!response.ok) {
+				throw new Error(`MCP server ${this.url} answered ${response.status}: ${await response.text()}`);
+			}
+			// notifications and responses are acknowledged without a body
+			if (response.status === 202 || !response.body) return;
+
+			if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+				await this.readEvents(response.body);
+			} else {
+				const json = await response.json();
+				(Array.isArray(json) ? json : [json]).forEach((received) => this.onmessage?.(received as JSONRPCMessage));
+			}
+		} catch (error) {
+			// the client rejects the pending request with it, no need to report it twice
+			if (!this.abort.signal.aborted) throw error;
+		}
+	}
+
+	async close(): Promise<void> {
+		this.abort.abort();
+		if (this.sessionId) {
+			// let the server free the session, it is fine if it does not support that
+			await fetch(this.url, { method: 'DELETE', headers: { ...this.headers, 'Mcp-Session-Id': this.sessionId } }).catch(() => {});
+		}
+		this.onclose?.();
+	}
+
+	private async readEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+		const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+		let buffer = '';
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += value.replace(/\r\n/g, '\n');
+			let end: number;
+			// events are separated by a blank line, only their `data:` lines carry messages
+			while ((end = buffer.indexOf('\n\n')) !== -1) {
+				const data = buffer
+					.slice(0, end)
+					.split('\n')
+					.filter((line) => line.startsWith('data:'))
+					.map((line) => line.slice(5).trimStart())
+					.join('\n');
+				buffer = buffer.slice(end + 2);
+				if (data) this.onmessage?.(JSON.parse(data) as JSONRPCMessage);
+			}
+		}
+	}
+}
+
+export interface McpConnection {
+	tools: ToolDefinition[];
+	close(): Promise<void>;
+}
+
+/**
+ * Connects to the servers in `MCP_SERVERS` and turns their tools into tool definitions.
+ * `requested` is the session's allow-list (`?mcp=`): comma separated server names or
+ * `server/tool` entries, `none` for no MCP tools. It can only narrow what the server
+ * config allows. Servers that fail to connect are skipped.
+ */
+export async function connectMcpServers(env: Env, requested?: string | null): Promise<McpConnection> {
+	const servers = parseMcpServers(env.MCP_SERVERS);
+	const allowed = requested?.split(',').map((entry) => entry.trim());
+	const isAllowed = (server: McpServerConfig, tool: string) =>
+		(!server.tools || server.tools.includes(tool)) &&
+		(!allowed || allowed.includes(server.name) || allowed.includes(`${server.name}/${tool}`));
+
+	const connections = await Promise.all(
+		servers
+			.filter((server) => !allowed || allowed.some((entry) => entry === server.name || entry.startsWith(`${server.name}/`)))
+			.map((server) => connectMcpServer(server, isAllowed))
+	);
+	const connected = connections.filter((connection) => connection !== null);
+	return {
+		tools: connected.flatMap((connection) => connection.tools),
+		close: async () => {
+			await Promise.allSettled(connected.map((connection) => connection.close()));
+		},
+	};
+}
+
+async function connectMcpServer(
+	server: McpServerConfig,
+	isAllowed: (server: McpServerConfig, tool: string) => boolean
+): Promise<McpConnection | null> {
+	let timeoutId: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timeoutId = setTimeout(() => reject(new Error(`no answer within ${MCP_CONNECT_TIMEOUT_MS}ms`)), MCP_CONNECT_TIMEOUT_MS);
+	});
+
+	const connecting = experimental_createMCPClient({
+		name: 'talk2ai',
+		transport:
+			server.transport === 'sse'
+				? { type: 'sse', url: server.url, headers: server.headers }
+				: new StreamableHTTPTransport(server.url, server.headers),
+		onUncaughtError: (error) => console.error(`MCP server ${server.name} error:`, error),
+	});
+	try {
+		const client = await Promise.race([connecting, timeout]);
+		const serverTools = await Promise.race([client.tools(), timeout]);
+
+		const tools: ToolDefinition[] = Object.entries(serverTools)
+			.filter(([name]) => isAllowed(server, name))
+			.map(([name, serverTool]) => ({
+				name: `${server.name}_${name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64),
+				description: serverTool.description ?? name,
+				// the MCP server validates the arguments against its own schema
+				parameters: z.record(z.string(), z.unknown()),
+				// MCP tools carry a JSON schema, not a zod one
+				inputSchema: (serverTool.parameters as unknown as Schema).jsonSchema as Record<string, unknown>,
+				progress: server.progress,
+				execute: async (args, context) =>
+					toolResultForModel(await serverTool.execute(args, { toolCallId: context.toolCallId, messages: [], abortSignal: context.signal })),
+			}));
+		console.log(`MCP server ${server.name} connected, tools:`, tools.map((tool) => tool.name).join(', ') || 'none allowed');
+		return { tools, close: () => client.close() };
+	} catch (error) {
+		console.error(`Failed to connect to MCP server ${server.name} (${server.url}):`, error);
+		// the client may still be connecting when the timeout hits, it is closed whenever it gets there
+		connecting.then((client) => client.close()).catch(() => {});
+		return null;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+function parseMcpServers(raw: string | undefined): McpServerConfig[] {
+	if (!raw) return [];
+	try {
+		return z.array(McpServerConfig).parse(JSON.parse(raw));
+	} catch (error) {
+		console.error('Ignoring invalid MCP_SERVERS:', error instanceof z.ZodError ? z.prettifyError(error) : error);
+		return [];
+	}
+}
+
+/** MCP results are lists of content parts, the model reads plain text best */
+function toolResultForModel(result: any): unknown {
+	const parts: any[] = Array.isArray(result?.content) ? result.content : [];
+	if (!parts.length || parts.some((part) => part.type !== 'text')) return result;
+	const text = parts.map((part) => part.text).join('\n');
+	if (result.isError) throw new Error(text);
+	return text;
+}
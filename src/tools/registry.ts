@@ -0,0 +1,84 @@
+import { jsonSchema, tool, ToolSet } from 'ai';
+import { z } from 'zod';
+
+/** what a tool knows about the session it runs in */
+export interface ToolContext {
+	/** IANA timezone the client reported, UTC when it did not */
+	timezone: string;
+	signal: AbortSignal;
+	/** the model's id for this call */
+	toolCallId: string;
+}
+
+export interface ToolDefinition<P extends z.ZodType = z.ZodType> {
+	name: string;
+	description: string;
+	parameters: P;
+	/** JSON schema shown to the model, derived from `parameters` when omitted (external tools bring their own) */
+	inputSchema?: Record<string, unknown>;
+	/** spoken when the tool takes longer than TOOL_PROGRESS_DELAY_MS */
+	progress?: string;
+	execute(args: z.infer<P>, context: ToolContext): Promise<unknown> | unknown;
+}
+
+/** how many LLM calls one answer may take, each tool round trip is one */
+export const MAX_TOOL_STEPS = 5;
+// fast tools answer before the user would notice a pause, only slow ones get a spoken filler
+const TOOL_PROGRESS_DELAY_MS = 400;
+const DEFAULT_PROGRESS = 'Let me check that.';
+
+/** keeps the parameter type of each tool while building the list */
+export function defineTool<P extends z.ZodType>(definition: ToolDefinition<P>): ToolDefinition<P> {
+	return definition;
+}
+
+/**
+ * The tools the assistant may call in a session. Parameters are zod schemas, handed to
+ * the model as JSON schema and validated before the handler runs. A failing handler
+ * returns `{ error }` to the model so it can explain the problem instead of going silent.
+ */
+export class ToolRegistry {
+	private tools = new Map<string, ToolDefinition<any>>();
+
+	register(...definitions: ToolDefinition<any>[]): this {
+		for (const definition of definitions) this.tools.set(definition.name, definition);
+		return this;
+	}
+
+	get size(): number {
+		return this.tools.size;
+	}
+
+	/** AI SDK tools for one answer, `onProgress` is called with a filler sentence when a tool is slow */
+	toToolSet(context: Omit<ToolContext, 'toolCallId'>, onProgress: (message: string) => void): ToolSet {
+		const toolSet: ToolSet = {};
+		for (const definition of this.tools.values()) {
+			const { $schema, ...schema } = definition.inputSchema ?? (z.toJSONSchema(definition.parameters) as Record<string, unknown>);
+			toolSet[definition.name] = tool({
+				description: definition.description,
+				parameters: jsonSchema(schema, {
+					validate: (value) => {
+						const result = definition.parameters.safeParse(value);
+						return result.success ? { success: true, value: result.data } : { success: false, error: result.error };
+					},
+				}),
+				execute: (args, { toolCallId }) => this.run(definition, args, { ...context, toolCallId }, onProgress),
+			});
+		}
+		return toolSet;
+	}
+
+	private async run(definition: ToolDefinition, args: unknown, context: ToolContext, onProgress: (message: string) => void) {
+		const progressTimer = setTimeout(() => onProgress(definition.progress ?? DEFAULT_PROGRESS), TOOL_PROGRESS_DELAY_MS);
+		try {
+			const result = await definition.execute(args, context);
+			console.log(`Tool ${definition.name}(${JSON.stringify(args)}) returned`, result);
+			return result;
+		} catch (error) {
+			console.error(`Tool ${definition.name}(${JSON.stringify(args)}) failed:`, error);
+			return { error: error instanceof Error ? error.message : String(error) };
+		} finally {
+			clearTimeout(progressTimer);
+		}
+	}
+}
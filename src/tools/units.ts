@@ -0,0 +1,86 @@
+type Category = 'length' | 'mass' | 'volume' | 'speed' | 'time' | 'temperature';
+
+interface Unit {
+	category: Category;
+	/** multiply by this to get the category's base unit (meter, kilogram, liter, m/s, second) */
+	factor: number;
+}
+
+// Maps, unit names come from the model and must not match inherited object keys like `constructor`
+const UNITS = new Map<string, Unit>();
+
+function define(category: Category, factor: number, ...names: string[]): void {
+	for (const name of names) UNITS.set(name, { category, factor });
+}
+
+define('length', 1, 'm', 'meter', 'meters', 'metre', 'metres');
+define('length', 1000, 'km', 'kilometer', 'kilometers', 'kilometre', 'kilometres');
+define('length', 0.01, 'cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres');
+define('length', 0.001, 'mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres');
+define('length', 1609.344, 'mi', 'mile', 'miles');
+define('length', 0.9144, 'yd', 'yard', 'yards');
+define('length', 0.3048, 'ft', 'foot', 'feet');
+define('length', 0.0254, 'in', 'inch', 'inches');
+define('length', 1852, 'nmi', 'nautical mile', 'nautical miles');
+
+define('mass', 1, 'kg', 'kilogram', 'kilograms', 'kilo', 'kilos');
+define('mass', 0.001, 'g', 'gram', 'grams');
+define('mass', 0.000001, 'mg', 'milligram', 'milligrams');
+define('mass', 1000, 't', 'tonne', 'tonnes', 'metric ton', 'metric tons');
+define('mass', 0.45359237, 'lb', 'lbs', 'pound', 'pounds');
+define('mass', 0.028349523125, 'oz', 'ounce', 'ounces');
+define('mass', 6.35029318, 'st', 'stone', 'stones');
+
+define('volume', 1, 'l', 'liter', 'liters', 'litre', 'litres');
+define('volume', 0.001, 'ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres');
+define('volume', 1000, 'm3', 'cubic meter', 'cubic meters');
+define('volume', 3.785411784, 'gal', 'gallon', 'gallons');
+define('volume', 0.946352946, 'qt', 'quart', 'quarts');
+define('volume', 0.473176473, 'pt', 'pint', 'pints');
+define('volume', 0.2365882365, 'cup', 'cups');
+define('volume', 0.0295735295625, 'fl oz', 'fluid ounce', 'fluid ounces');
+define('volume', 0.01478676478125, 'tbsp', 'tablespoon', 'tablespoons');
+define('volume', 0.00492892159375, 'tsp', 'teaspoon', 'teaspoons');
+
+define('speed', 1, 'm/s', 'meters per second');
+define('speed', 1000 / 3600, 'km/h', 'kph', 'kilometers per hour');
+define('speed', 1609.344 / 3600, 'mph', 'miles per hour');
+define('speed', 1852 / 3600, 'kn', 'knot', 'knots');
+
+define('time', 1, 's', 'sec', 'second', 'seconds');
+define('time', 60, 'min', 'minute', 'minutes');
+define('time', 3600, 'h', 'hr', 'hour', 'hours');
+define('time', 86400, 'd', 'day', 'days');
+define('time', 604800, 'wk', 'week', 'weeks');
+
+// temperatures are offset scales: celsius = (value - offset) * scale
+const TEMPERATURES = new Map<string, { offset: number; scale: number }>();
+
+function defineTemperature(offset: number, scale: number, ...names: string[]): void {
+	for (const name of names) TEMPERATURES.set(name, { offset, scale });
+}
+
+defineTemperature(0, 1, 'c', '°c', 'celsius');
+defineTemperature(32, 5 / 9, 'f', '°f', 'fahrenheit');
+defineTemperature(273.15, 1, 'k', 'kelvin');
+
+/** converts `value` between two units of the same kind, throws on unknown or mismatched units */
+export function convertUnits(value: number, from: string, to: string): number {
+	const fromName = from.trim().toLowerCase();
+	const toName = to.trim().toLowerCase();
+
+	const fromTemperature = TEMPERATURES.get(fromName);
+	const toTemperature = TEMPERATURES.get(toName);
+	if (fromTemperature || toTemperature) {
+		if (!fromTemperature || !toTemperature) throw new Error(`Cannot convert ${from} to ${to}`);
+		const celsius = (value - fromTemperature.offset) * fromTemperature.scale;
+		return celsius / toTemperature.scale + toTemperature.offset;
+	}
+
+	const fromUnit = UNITS.get(fromName);
+	const toUnit = UNITS.get(toName);
+	if (!fromUnit) throw new Error(`Unknown unit "${from}"`);
+	if (!toUnit) throw new Error(`Unknown unit "${to}"`);
+	if (fromUnit.category !== toUnit.category) throw new Error(`Cannot convert ${fromUnit.category} (${from}) to ${toUnit.category} (${to})`);
+	return (value * fromUnit.factor) / toUnit.factor;
+}
@@ -0,0 +1,90 @@
+import type { Turn } from './conversation';
+
+export const TRANSCRIPT_FORMATS = ['json', 'markdown', 'vtt', 'srt'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export interface TranscriptExport {
+	content: string;
+	contentType: string;
+	filename: string;
+}
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+	json: 'application/json',
+	markdown: 'text/markdown; charset=utf-8',
+	vtt: 'text/vtt; charset=utf-8',
+	srt: 'application/x-subrip; charset=utf-8',
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = { json: 'json', markdown: 'md', vtt: 'vtt', srt: 'srt' };
+
+// a cue shorter than this flashes by too fast to read
+const MIN_CUE_MS = 1000;
+
+export function isTranscriptFormat(format: string): format is TranscriptFormat {
+	return (TRANSCRIPT_FORMATS as readonly string[]).includes(format);
+}
+
+export function exportTranscript(sessionId: string, turns: Turn[], format: TranscriptFormat): TranscriptExport {
+	return {
+		content: FORMATTERS[format](sessionId, turns),
+		contentType: CONTENT_TYPES[format],
+		filename: `transcript-${sessionId}.${EXTENSIONS[format]}`,
+	};
+}
+
+const FORMATTERS: Record<TranscriptFormat, (sessionId: string, turns: Turn[]) => string> = {
+	json: (sessionId, turns) => JSON.stringify({ sessionId, exportedAt: Date.now(), turns }, null, 2),
+
+	markdown: (sessionId, turns) => {
+		const lines = [`# Transcript`, '', `Session \`${sessionId}\``, ''];
+		for (const turn of turns) {
+			const time = new Date(turn.startedAt).toISOString();
+			lines.push(`**${speaker(turn)}** (${time}): ${turn.text}${turn.interrupted ? ' _(interrupted)_' : ''}`, '');
+		}
+		return lines.join('\n');
+	},
+
+	vtt: (_sessionId, turns) => {
+		const cues = captionCues(turns).map(
+			({ turn, startMs, endMs }, index) =>
+				`${index + 1}\n${timestamp(startMs, '.')} --> ${timestamp(endMs, '.')}\n<v ${speaker(turn)}>${escapeVtt(turn.text)}`
+		);
+		return ['WEBVTT', ...cues].join('\n\n') + '\n';
+	},
+
+	srt: (_sessionId, turns) =>
+		captionCues(turns)
+			.map(
+				({ turn, startMs, endMs }, index) =>
+					`${index + 1}\n${timestamp(startMs, ',')} --> ${timestamp(endMs, ',')}\n${speaker(turn)}: ${turn.text}`
+			)
+			.join('\n\n') + '\n',
+};
+
+/**
+ * Places every turn on a timeline starting at the first turn. Assistant turns last as
+ * long as the audio the user heard, user turns as long as they were speaking.
+ */
+function captionCues(turns: Turn[]): Array<{ turn: Turn; startMs: number; endMs: number }> {
+	const origin = turns[0]?.startedAt ?? 0;
+	return turns.map((turn) => {
+		const startMs = turn.startedAt - origin;
+		const spokenMs = turn.role === 'assistant' && turn.audioMs ? turn.audioMs : (turn.endedAt ?? turn.startedAt) - turn.startedAt;
+		return { turn, startMs, endMs: startMs + Math.max(spokenMs, MIN_CUE_MS) };
+	});
+}
+
+function speaker(turn: Turn): string {
+	return turn.role === 'user' ? 'User' : 'AI';
+}
+
+/** hh:mm:ss.mmm, SRT uses a comma before the milliseconds */
+function timestamp(ms: number, separator: '.' | ','): string {
+	const pad = (value: number, length = 2) => String(Math.floor(value)).padStart(length, '0');
+	return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
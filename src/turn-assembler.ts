@@ -0,0 +1,121 @@
+import { mostFrequentLanguage } from './language';
+import type { TranscriptEvent } from './speech-to-text';
+import type { TurnDetector } from './turn-detection';
+
+/** one complete user turn, as handed to `onTurn` */
+export interface AssembledTurn {
+	text: string;
+	/** when the first words of the turn were recognized */
+	startedAt: number;
+	endedAt: number;
+	/** average confidence of the final segments, null when the provider reports none */
+	confidence: number | null;
+	/** language most of the turn was spoken in, null unless the STT detects languages */
+	language: string | null;
+}
+
+export interface TurnAssemblerOptions {
+	/** optional semantic check run before a turn is committed */
+	detector?: TurnDetector | null;
+	/** how long an utterance judged incomplete waits for more speech before it is committed anyway */
+	maxWaitMs?: number;
+}
+
+/**
+ * Collects final STT segments into one user turn. A turn is committed on the first
+ * `speech_final` segment or on `UtteranceEnd`, so a user pausing mid-thought produces
+ * one LLM call instead of one per segment. With a detector, utterances it judges
+ * incomplete are held until more speech arrives or `maxWaitMs` passes.
+ */
+export class TurnAssembler {
+	private segments: string[] = [];
+	private confidences: number[] = [];
+	private languages: string[] = [];
+	private startedAt: number | null = null;
+	private detector: TurnDetector | null;
+	private maxWaitMs: number;
+	private holdTimer?: ReturnType<typeof setTimeout>;
+	// bumped on new speech so stale detector answers are ignored
+	private generation = 0;
+
+	constructor(private onTurn: (turn: AssembledTurn) => void, options: TurnAssemblerOptions = {}) {
+		this.detector = options.detector ?? null;
+		this.maxWaitMs = options.maxWaitMs ?? 3000;
+	}
+
+	/** everything recognized so far in the current turn, plus the given interim text */
+	preview(interim = ''): string {
+		return [...this.segments, interim].filter(Boolean).join(' ');
+	}
+
+	add({ transcript, isFinal, speechFinal, confidence, language }: TranscriptEvent): void {
+		if (transcript.trim()) {
+			// the user kept talking, whatever we were waiting on is superseded
+			this.generation++;
+			this.clearHold();
+			this.startedAt ??= Date.now();
+		}
+		if (isFinal && transcript.trim()) {
+			this.segments.push(transcript.trim());
+			if (confidence !== undefined) this.confidences.push(confidence);
+			if (language) this.languages.push(language);
+		}
+		if (speechFinal) {
+			this.commit();
+		}
+	}
+
+	utteranceEnd(): void {
+		this.commit();
+	}
+
+	reset(): void {
+		this.generation++;
+		this.clearHold();
+		this.segments = [];
+		this.confidences = [];
+		this.languages = [];
+		this.startedAt = null;
+	}
+
+	private async commit(): Promise<void> {
+		const text = this.preview();
+		if (!text) return;
+		if (!this.detector) {
+			this.emit(text);
+			return;
+		}
+
+		const generation = ++this.generation;
+		const complete = await this.detector.isComplete(text);
+		if (generation !== this.generation) return;
+
+		if (complete) {
+			this.emit(text);
+		} else if (!this.holdTimer) {
+			console.log(`Turn looks incomplete, waiting up to ${this.maxWaitMs}ms for more speech`);
+			this.holdTimer = setTimeout(() => {
+				this.holdTimer = undefined;
+				this.emit(this.preview());
+			}, this.maxWaitMs);
+		}
+	}
+
+	private emit(text: string): void {
+		const { confidences, languages, startedAt } = this;
+		this.reset();
+		if (!text) return;
+		this.onTurn({
+			text,
+			startedAt: startedAt ?? Date.now(),
+			endedAt: Date.now(),
+			confidence: confidences.length ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : null,
+			language: mostFrequentLanguage(languages),
+		});
+	}
+
+	private clearHold(): void {
+		if (this.holdTimer) clearTimeout(this.holdTimer);
+		this.holdTimer = undefined;
+	}
+}
@@ -0,0 +1,79 @@
+/**
+ * Decides whether a user's utterance is a finished thought. Silence-based endpointing
+ * cannot tell "I want to book a flight to..." (pause) from a complete question.
+ */
+export interface TurnDetector {
+	isComplete(text: string): Promise<boolean>;
+}
+
+export interface WorkersAITurnDetectorConfig {
+	ai: Ai;
+	model?: string;
+	/** after this long the utterance is treated as complete, a slow answer must not stall the turn */
+	timeoutMs?: number;
+}
+
+const TURN_DETECTION_PROMPT =
+	'You decide whether a speaker in a voice conversation has finished their turn. ' +
+	'Reply with only YES if the utterance is a complete thought, question or request, ' +
+	'or only NO if the speaker stopped mid-sentence and will likely continue.';
+
+export class WorkersAITurnDetector implements TurnDetector {
+	private config: Required<WorkersAITurnDetectorConfig>;
+
+	constructor(config: WorkersAITurnDetectorConfig) {
+		this.config = {
+			model: '@cf/meta/llama-3.2-1b-instruct',
+			timeoutMs: 1500,
+			...config,
+		};
+	}
+
+	async isComplete(text: string): Promise<boolean> {
+		let timeoutId: ReturnType<typeof setTimeout> | undefined;
+		const timeout = new Promise<boolean>((resolve) => {
+			timeoutId = setTimeout(() => resolve(true), this.config.timeoutMs);
+		});
+
+		try {
+			return await Promise.race([this.classify(text), timeout]);
+		} catch (error) {
+			// on failure fall back to plain endpointing rather than holding the turn
+			console.error('Turn detection failed:', error);
+			return true;
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+
+	private async classify(text: string): Promise<boolean> {
+		const result: any = await this.config.ai.run(this.config.model as '@cf/meta/llama-3.2-1b-instruct', {
+			messages: [
+				{ role: 'system', content: TURN_DETECTION_PROMPT },
+				{ role: 'user', content: text },
+			],
+			max_tokens: 3,
+			temperature: 0,
+		});
+		const answer = String(result?.response ?? '')
+			.trim()
+			.toUpperCase();
+		console.log(`Turn detection for "${text}": ${answer}`);
+		return !answer.startsWith('NO');
+	}
+}
+
+/**
+ * Semantic turn detection is opt-in via `TURN_DETECTION=llm` (or `?turn_detection=llm`),
+ * returns null when it is off.
+ */
+export function createTurnDetector(env: Env, requested?: string | null): TurnDetector | null {
+	const mode = requested || env.TURN_DETECTION || 'off';
+	if (mode === 'llm') {
+		return new WorkersAITurnDetector({ ai: env.AI });
+	}
+	if (mode !== 'off') {
+		console.warn(`Unknown turn detection mode "${mode}", using endpointing only`);
+	}
+	return null;
+}
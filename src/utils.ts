@@ -1,8 +1,6 @@
 export async function bufferText(textStream: ReadableStream, callBack: (sentence: string) => void) {
 	let wordBuffer = '';
-	let timeoutId;
 	for await (const word of textStream) {
-		if (timeoutId) clearTimeout(timeoutId);
 		wordBuffer += word;
 
 		// Match sentences ending with ., !, or ? followed by a space or end of string
@@ -18,10 +16,80 @@ export async function bufferText(textStream: ReadableStream, callBack: (sentence
 
 		// Keep only the unfinished part in the wordBuffer
 		wordBuffer = wordBuffer.slice(lastIndex);
+	}
+
+	// an unpunctuated tail is spoken before the stream counts as finished, while it can still be interrupted
+	if (wordBuffer.trim()) callBack(wordBuffer.trim());
+}
+
+/** a timezone `Intl` knows, it throws a RangeError on any other */
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** a text that is complete already, for code that consumes LLM text streams */
+export function textToStream(text: string): ReadableStream<string> {
+	return new ReadableStream({
+		start(controller) {
+			controller.enqueue(text);
+			controller.close();
+		},
+	});
+}
 
-		// Set a timer to process last buffer if no new word comes
-		timeoutId = setTimeout(() => {
-			if (wordBuffer) callBack(wordBuffer);
-		}, 1000);
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+	const bytes = new Uint8Array(buffer);
+	let binary = '';
+	// convert in slices, a per-byte string concat is slow on large audio buffers
+	for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
 	}
+	return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+	return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+}
+
+/**
+ * Streaming counterpart of `bufferText`: every piece of text is forwarded as soon as it
+ * arrives, and sentence boundaries are reported once everything before them was forwarded.
+ */
+export async function streamSentences(
+	textStream: ReadableStream,
+	onText: (chunk: string) => void,
+	onSentence: (sentence: string) => void
+) {
+	let wordBuffer = '';
+	let sent = 0; // characters of wordBuffer already passed to onText
+	for await (const word of textStream) {
+		wordBuffer += word;
+
+		const sentenceRegex = /([^\r\n.?!]*[.?!])(\s|$)/g;
+		let match;
+		let lastIndex = 0;
+
+		while ((match = sentenceRegex.exec(wordBuffer)) !== null) {
+			const end = sentenceRegex.lastIndex;
+			if (end > sent) onText(wordBuffer.slice(sent, end));
+			sent = Math.max(sent, end);
+			const sentence = wordBuffer.slice(lastIndex, end).trim();
+			if (sentence) onSentence(sentence);
+			lastIndex = end;
+		}
+
+		wordBuffer = wordBuffer.slice(lastIndex);
+		sent -= lastIndex;
+		if (wordBuffer.length > sent) {
+			onText(wordBuffer.slice(sent));
+			sent = wordBuffer.length;
+		}
+	}
+
+	if (wordBuffer.trim()) onSentence(wordBuffer.trim());
 }
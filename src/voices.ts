@@ -0,0 +1,102 @@
+import { primaryLanguage } from './language';
+import { createTextToSpeech, SynthesizedAudio, TextToSpeechProviderName, TTSError } from './text-to-speech';
+
+export interface Voice {
+	/** what `configure` takes as `voice` */
+	id: string;
+	provider: TextToSpeechProviderName;
+	name: string;
+	/** BCP-47 language and accent the voice speaks */
+	language: string;
+	/** null when the vendor does not say */
+	gender: 'female' | 'male' | null;
+	description: string;
+}
+
+/** read by every voice for `/api/voices/<id>/sample` */
+export const VOICE_SAMPLE_TEXT = 'Hi there! This is how I sound. I hope you find me easy to understand.';
+
+const deepgram = (id: string, name: string, language: string, gender: Voice['gender'], description: string): Voice => ({
+	id,
+	provider: 'deepgram',
+	name,
+	language,
+	gender,
+	description,
+});
+
+// MeloTTS has a single voice per language
+const melotts = (language: string, name: string): Voice => ({
+	id: `melotts-${language}`,
+	provider: 'workers-ai',
+	name,
+	language,
+	gender: null,
+	description: `MeloTTS on Workers AI, ${name}`,
+});
+
+export const VOICES: Voice[] = [
+	deepgram('aura-asteria-en', 'Asteria', 'en-US', 'female', 'Clear, confident and warm'),
+	deepgram('aura-luna-en', 'Luna', 'en-US', 'female', 'Friendly, natural and engaging'),
+	deepgram('aura-stella-en', 'Stella', 'en-US', 'female', 'Clear, professional and engaging'),
+	deepgram('aura-athena-en', 'Athena', 'en-GB', 'female', 'Calm, smooth and professional'),
+	deepgram('aura-hera-en', 'Hera', 'en-US', 'female', 'Smooth, warm and professional'),
+	deepgram('aura-orion-en', 'Orion', 'en-US', 'male', 'Approachable, comfortable and calm'),
+	deepgram('aura-arcas-en', 'Arcas', 'en-US', 'male', 'Natural, smooth and clear'),
+	deepgram('aura-perseus-en', 'Perseus', 'en-US', 'male', 'Confident, professional and clear'),
+	deepgram('aura-angus-en', 'Angus', 'en-IE', 'male', 'Warm, friendly and natural'),
+	deepgram('aura-orpheus-en', 'Orpheus', 'en-US', 'male', 'Professional, clear and trustworthy'),
+	deepgram('aura-helios-en', 'Helios', 'en-GB', 'male', 'Professional, clear and confident'),
+	deepgram('aura-zeus-en', 'Zeus', 'en-US', 'male', 'Deep, trustworthy and smooth'),
+	deepgram('aura-2-thalia-en', 'Thalia', 'en-US', 'female', 'Clear, confident and energetic'),
+	deepgram('aura-2-andromeda-en', 'Andromeda', 'en-US', 'female', 'Casual, expressive and comfortable'),
+	deepgram('aura-2-apollo-en', 'Apollo', 'en-US', 'male', 'Confident, comfortable and casual'),
+	deepgram('aura-2-celeste-es', 'Celeste', 'es-CO', 'female', 'Clear, energetic and positive'),
+	deepgram('aura-2-carina-es', 'Carina', 'es-ES', 'female', 'Professional, raspy and energetic'),
+	deepgram('aura-2-nestor-es', 'Néstor', 'es-ES', 'male', 'Calm, professional and approachable'),
+	melotts('en', 'English'),
+	melotts('es', 'Spanish'),
+	melotts('fr', 'French'),
+];
+
+export function findVoice(id: string): Voice | null {
+	return VOICES.find((voice) => voice.id === id) ?? null;
+}
+
+/** Deepgram voices need the `DEEPGRAM` key */
+export function isVoiceAvailable(env: Env, voice: Voice): boolean {
+	return voice.provider !== 'deepgram' || Boolean(env.DEEPGRAM);
+}
+
+/**
+ * Whether a session with these TTS settings (`?tts=` and `?tts_mode=`, or `TTS_PROVIDER` and `TTS_MODE`)
+ * can speak the voice. Per-sentence synthesis speaks the voices of its providers, a streaming session
+ * also Deepgram's.
+ */
+export function canSpeakVoice(env: Env, voice: Voice, tts?: string | null, ttsMode?: string | null): boolean {
+	if (!isVoiceAvailable(env, voice)) return false;
+	const providers = (tts || env.TTS_PROVIDER || 'deepgram').split(',').map((name) => name.trim());
+	return providers.includes(voice.provider) || (voice.provider === 'deepgram' && (ttsMode || env.TTS_MODE || 'rest') === 'stream');
+}
+
+/**
+ * Available voices speaking the language, the ones closest to `like` first: the same
+ * provider, then the same gender, then the same accent.
+ */
+export function voicesForLanguage(env: Env, language: string, like: Voice | null): Voice[] {
+	const score = (voice: Voice) =>
+		Number(voice.provider === like?.provider) * 4 +
+		Number(voice.gender !== null && voice.gender === like?.gender) * 2 +
+		Number(voice.language.toLowerCase() === language.toLowerCase());
+	return VOICES.filter((voice) => primaryLanguage(voice.language) === primaryLanguage(language) && isVoiceAvailable(env, voice)).sort(
+		(a, b) => score(b) - score(a)
+	);
+}
+
+export async function synthesizeVoiceSample(env: Env, voice: Voice): Promise<SynthesizedAudio> {
+	const tts = createTextToSpeech(env, voice.provider);
+	if (!tts.setVoice(voice)) {
+		throw new TTSError('provider_error', voice.provider, `${voice.provider} TTS is not configured`);
+	}
+	return tts.synthesize(VOICE_SAMPLE_TEXT);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { AUDIO_FRAME_HEADER_BYTES, AUDIO_FRAME_VERSION, AudioFrameType, encodeAudioFrame } from '../src/audio-frame';
+import type { AudioEncoding } from '../src/text-to-speech';
+import { decodeAudioFrame } from '../public/audio-frame.js';
+
+describe('audio frames', () => {
+	it('decodes what was encoded', () => {
+		const audio = new Uint8Array([1, 2, 3, 255]).buffer;
+		const frame = encodeAudioFrame({ type: AudioFrameType.Clip, seq: 70_000, encoding: 'mp3', sampleRate: 24000, durationMs: 1234, audio });
+
+		expect(frame.byteLength).toBe(AUDIO_FRAME_HEADER_BYTES + 4);
+		const decoded = decodeAudioFrame(frame);
+		expect(decoded).toMatchObject({
+			version: AUDIO_FRAME_VERSION,
+			type: 'clip',
+			encoding: 'mp3',
+			seq: 70_000,
+			sampleRate: 24000,
+			durationMs: 1234,
+		});
+		expect([...new Uint8Array(decoded.audio)]).toEqual([1, 2, 3, 255]);
+	});
+
+	it('sends 0 as the duration of streamed chunks', () => {
+		const frame = encodeAudioFrame({
+			type: AudioFrameType.Chunk,
+			seq: 3,
+			encoding: 'linear16',
+			sampleRate: 16000,
+			audio: new ArrayBuffer(0),
+		});
+		expect(decodeAudioFrame(frame)).toMatchObject({ type: 'chunk', encoding: 'linear16', seq: 3, sampleRate: 16000, durationMs: 0 });
+		expect(decodeAudioFrame(frame).audio.byteLength).toBe(0);
+	});
+
+	it('keeps the encoding ids of both sides in sync', () => {
+		for (const encoding of ['wav', 'mp3', 'linear16'] satisfies AudioEncoding[]) {
+			const frame = encodeAudioFrame({ type: AudioFrameType.Clip, seq: 0, encoding, sampleRate: 8000, audio: new ArrayBuffer(2) });
+			expect(decodeAudioFrame(frame).encoding).toBe(encoding);
+		}
+	});
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedOrigin, signToken, verifyToken } from '../src/auth';
+
+const SECRET = 'test-secret';
+
+function base64url(data: string | ArrayBuffer): string {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+// a token with any header, signed with HS256 so only the header can make it invalid
+async function signWithHeader(header: object, claims: object): Promise<string> {
+	const payload = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return `${payload}.${base64url(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload)))}`;
+}
+
+describe('verifyToken', () => {
+	it('returns the claims of a token it signed', async () => {
+		const { token, claims } = await signToken(SECRET, 'alice', 60);
+		expect(await verifyToken(SECRET, token)).toEqual(claims);
+		expect(claims.exp - claims.iat).toBe(60);
+	});
+
+	it('rejects tokens signed with another secret', async () => {
+		const { token } = await signToken('another-secret', 'alice', 60);
+		expect(await verifyToken(SECRET, token)).toBeNull();
+	});
+
+	it('rejects tokens whose claims were changed', async () => {
+		const { token, claims } = await signToken(SECRET, 'alice', 60);
+		const [header, , signature] = token.split('.');
+		const forged = `${header}.${base64url(JSON.stringify({ ...claims, sub: 'mallory' }))}.${signature}`;
+		expect(await verifyToken(SECRET, forged)).toBeNull();
+	});
+
+	it('rejects malformed tokens', async () => {
+		expect(await verifyToken(SECRET, '')).toBeNull();
+		expect(await verifyToken(SECRET, 'not-a-token')).toBeNull();
+		expect(await verifyToken(SECRET, 'a.b.c')).toBeNull();
+	});
+
+	it('rejects expired tokens unless they are within the leeway', async () => {
+		const { token } = await signToken(SECRET, 'alice', -10);
+		expect(await verifyToken(SECRET, token)).toBeNull();
+		expect(await verifyToken(SECRET, token, 5)).toBeNull();
+		expect((await verifyToken(SECRET, token, 30))?.sub).toBe('alice');
+	});
+
+	it('rejects algorithms other than HS256', async () => {
+		const now = Math.floor(Date.now() / 1000);
+		const claims = { sub: 'alice', iat: now, exp: now + 60 };
+		expect(await verifyToken(SECRET, await signWithHeader({ alg: 'HS256', typ: 'JWT' }, claims))).toEqual(claims);
+		expect(await verifyToken(SECRET, await signWithHeader({ alg: 'HS512', typ: 'JWT' }, claims))).toBeNull();
+		expect(await verifyToken(SECRET, await signWithHeader({ alg: 'none', typ: 'JWT' }, claims))).toBeNull();
+		expect(await verifyToken(SECRET, await signWithHeader({ typ: 'JWT' }, claims))).toBeNull();
+	});
+
+	it('rejects unsigned tokens', async () => {
+		const { token } = await signToken(SECRET, 'alice', 60);
+		const [, payload] = token.split('.');
+		expect(await verifyToken(SECRET, `${base64url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${payload}.`)).toBeNull();
+	});
+});
+
+describe('isAllowedOrigin', () => {
+	const request = (origin?: string) => new Request('https://talk2ai.example.com/websocket', { headers: origin ? { Origin: origin } : {} });
+	const env = (allowedOrigins: string) => ({ ALLOWED_ORIGINS: allowedOrigins } as Env);
+
+	it('allows requests without an Origin header', () => {
+		expect(isAllowedOrigin(request(), env(''))).toBe(true);
+	});
+
+	it("allows only the worker's own origin when none are configured", () => {
+		expect(isAllowedOrigin(request('https://talk2ai.example.com'), env(''))).toBe(true);
+		expect(isAllowedOrigin(request('https://evil.example.com'), env(''))).toBe(false);
+	});
+
+	it('allows the configured origins', () => {
+		const allowed = env('https://app.example.com, https://admin.example.com');
+		expect(isAllowedOrigin(request('https://app.example.com'), allowed)).toBe(true);
+		expect(isAllowedOrigin(request('https://admin.example.com'), allowed)).toBe(true);
+		expect(isAllowedOrigin(request('https://talk2ai.example.com'), allowed)).toBe(false);
+		expect(isAllowedOrigin(request('https://app.example.com.evil.example.com'), allowed)).toBe(false);
+	});
+
+	it('allows any origin with *', () => {
+		expect(isAllowedOrigin(request('https://evil.example.com'), env('*'))).toBe(true);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from '../src/tools/calculator';
+
+describe('evaluateExpression', () => {
+	it('binds * / % tighter than + and -', () => {
+		expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+		expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+		expect(evaluateExpression('10 - 7 % 4')).toBe(7);
+	});
+
+	it('evaluates + - * / left to right and ^ right to left', () => {
+		expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+		expect(evaluateExpression('100 / 10 / 2')).toBe(5);
+		expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+	});
+
+	it('applies unary minus after the exponent', () => {
+		expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+		expect(evaluateExpression('(-2) ^ 2')).toBe(4);
+		expect(evaluateExpression('2 ^ -1')).toBe(0.5);
+		expect(evaluateExpression('2 * -3')).toBe(-6);
+		expect(evaluateExpression('--3')).toBe(3);
+		expect(evaluateExpression('+3')).toBe(3);
+	});
+
+	it('tells the constant e from an exponent in a number', () => {
+		expect(evaluateExpression('e')).toBe(Math.E);
+		expect(evaluateExpression('e ^ 2')).toBe(Math.E ** 2);
+		expect(evaluateExpression('2 * e')).toBe(2 * Math.E);
+		expect(evaluateExpression('2e3')).toBe(2000);
+		expect(evaluateExpression('1.5E-3')).toBe(0.0015);
+		expect(() => evaluateExpression('2e')).toThrow('Unexpected "e"');
+	});
+
+	it('knows the functions and constants', () => {
+		expect(evaluateExpression('sqrt(16) + abs(-2)')).toBe(6);
+		expect(evaluateExpression('round(pi * 100)')).toBe(314);
+		expect(evaluateExpression('log(1000)')).toBe(3);
+		expect(evaluateExpression('ln(exp(2))')).toBe(2);
+	});
+
+	it('rejects invalid tokens and incomplete expressions', () => {
+		expect(() => evaluateExpression('2 $ 3')).toThrow('Unexpected "$"');
+		expect(() => evaluateExpression('foo(2)')).toThrow('Unknown token "foo"');
+		expect(() => evaluateExpression('constructor')).toThrow('Unknown token "constructor"');
+		expect(() => evaluateExpression('sqrt 4')).toThrow('Expected "("');
+		expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+		expect(() => evaluateExpression('1 +')).toThrow('Unexpected end');
+		expect(() => evaluateExpression('')).toThrow('Unexpected end');
+	});
+
+	it('rejects results that are not finite', () => {
+		expect(() => evaluateExpression('1 / 0')).toThrow('no finite result');
+		expect(() => evaluateExpression('0 / 0')).toThrow('no finite result');
+		expect(() => evaluateExpression('5 % 0')).toThrow('no finite result');
+		expect(() => evaluateExpression('sqrt(-1)')).toThrow('no finite result');
+	});
+});
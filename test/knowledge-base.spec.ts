@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from '../src/knowledge-base';
+
+// a sentence of exactly `length` characters
+const sentence = (index: number, length = 100) => `Sentence ${index} `.padEnd(length - 1, 'x') + '.';
+
+describe('chunkText', () => {
+	it('keeps a short text in one chunk with its whitespace collapsed', () => {
+		expect(chunkText('Hello   world.\nHow are you?\n\nA new paragraph')).toEqual(['Hello world. How are you? A new paragraph']);
+		expect(chunkText(' \n\n ')).toEqual([]);
+	});
+
+	it('splits along sentences and starts each chunk with the end of the previous one', () => {
+		const sentences = Array.from({ length: 30 }, (_, index) => sentence(index));
+		const chunks = chunkText(sentences.join(' '));
+
+		expect(chunks.length).toBeGreaterThan(1);
+		for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(1000);
+		for (let i = 1; i < chunks.length; i++) {
+			const previous = chunks[i - 1].split(/(?<=\.) /);
+			const overlap = chunks[i].split(/(?<=\.) /).slice(0, 1);
+			expect(previous.slice(-1)).toEqual(overlap);
+		}
+		expect(chunks.at(-1)).toContain(sentences.at(-1));
+	});
+
+	it('carries over no more than the overlap', () => {
+		const chunks = chunkText([sentence(0, 300), sentence(1, 600), sentence(2, 300)].join(' '));
+		expect(chunks).toEqual([[sentence(0, 300), sentence(1, 600)].join(' '), sentence(2, 300)]);
+	});
+
+	it('cuts a sentence longer than a chunk at the limit', () => {
+		expect(chunkText('a'.repeat(2500))).toEqual(['a'.repeat(1000), 'a'.repeat(1000), 'a'.repeat(500)]);
+	});
+});
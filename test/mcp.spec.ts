@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { connectMcpServers } from '../src/tools/mcp';
+
+const SERVER_URL = 'https://mcp.example.com/mcp';
+
+interface StandIn {
+	/** JSON-RPC methods and HTTP DELETEs in the order the server got them */
+	received: string[];
+	/** answers a held back `initialize` */
+	release(): void;
+}
+
+/**
+ * A Streamable HTTP MCP server with an `echo` and a `shout` tool, answering `fetch` in place of the network.
+ * `tools/list` is answered as an SSE stream, everything else as JSON.
+ */
+function mcpStandIn({ holdInitialize = false } = {}): StandIn {
+	const received: string[] = [];
+	let release = () => {};
+	const held = holdInitialize ? new Promise<void>((resolve) => (release = resolve)) : Promise.resolve();
+
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		const request = new Request(input, init);
+		if (request.url !== SERVER_URL) throw new Error(`unexpected fetch of ${request.url}`);
+		if (request.method === 'DELETE') {
+			received.push(`DELETE ${request.headers.get('Mcp-Session-Id')}`);
+			return new Response(null, { status: 204 });
+		}
+		const message: { id?: number; method: string; params?: any } = await request.json();
+		received.push(message.method);
+		if (message.id === undefined) return new Response(null, { status: 202 });
+
+		const answer = (result: unknown) => JSON.stringify({ jsonrpc: '2.0', id: message.id, result });
+		switch (message.method) {
+			case 'initialize':
+				await held;
+				return new Response(
+					answer({
+						protocolVersion: message.params.protocolVersion,
+						capabilities: { tools: {} },
+						serverInfo: { name: 'stand-in', version: '1.0.0' },
+					}),
+					{ headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' } }
+				);
+			case 'tools/list': {
+				const inputSchema = { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] };
+				const tools = [
+					{ name: 'echo', description: 'Repeats the text', inputSchema },
+					{ name: 'shout', description: 'Repeats the text loudly', inputSchema },
+				];
+				return new Response(`event: message\r\ndata: ${answer({ tools })}\r\n\r\n`, { headers: { 'Content-Type': 'text/event-stream' } });
+			}
+			case 'tools/call': {
+				const text: string = message.params.arguments.text;
+				const content = [{ type: 'text', text: message.params.name === 'shout' ? text.toUpperCase() : text }];
+				return new Response(answer({ content }), { headers: { 'Content-Type': 'application/json' } });
+			}
+			default:
+				return new Response(JSON.stringify({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } }), {
+					headers: { 'Content-Type': 'application/json' },
+				});
+		}
+	});
+	return { received, release: () => release() };
+}
+
+function mcpEnv(server: Record<string, unknown> = {}): Env {
+	return { MCP_SERVERS: JSON.stringify([{ name: 'stand-in', url: SERVER_URL, ...server }]) } as Env;
+}
+
+const context = { timezone: 'UTC', signal: new AbortController().signal, toolCallId: 'call-1' };
+
+describe('connectMcpServers', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it("turns the server's tools into prefixed tool definitions and calls them", async () => {
+		const server = mcpStandIn();
+		const connection = await connectMcpServers(mcpEnv());
+		expect(connection.tools.map((tool) => tool.name)).toEqual(['stand-in_echo', 'stand-in_shout']);
+		expect(connection.tools[0].inputSchema).toMatchObject({ properties: { text: { type: 'string' } } });
+
+		expect(await connection.tools[1].execute({ text: 'hello' }, context)).toBe('HELLO');
+		await connection.close();
+		expect(server.received).toEqual(['initialize', 'notifications/initialized', 'tools/list', 'tools/call', 'DELETE session-1']);
+	});
+
+	it('only offers the tools both the server config and the session allow', async () => {
+		mcpStandIn();
+		expect((await connectMcpServers(mcpEnv({ tools: ['echo'] }))).tools.map((tool) => tool.name)).toEqual(['stand-in_echo']);
+		expect((await connectMcpServers(mcpEnv(), 'stand-in/shout')).tools.map((tool) => tool.name)).toEqual(['stand-in_shout']);
+		expect((await connectMcpServers(mcpEnv(), 'none')).tools).toEqual([]);
+	});
+
+	it('skips a server that does not answer in time and closes its client once it connects', async () => {
+		vi.useFakeTimers();
+		const server = mcpStandIn({ holdInitialize: true });
+		const connecting = connectMcpServers(mcpEnv());
+		await vi.advanceTimersByTimeAsync(5000);
+		expect((await connecting).tools).toEqual([]);
+
+		server.release();
+		await vi.waitFor(() => expect(server.received).toContain('DELETE session-1'));
+		expect(server.received).not.toContain('tools/list');
+	});
+
+	it('ignores an invalid MCP_SERVERS', async () => {
+		expect((await connectMcpServers({ MCP_SERVERS: '[{"name":"no url"}]' } as Env)).tools).toEqual([]);
+	});
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OrderedTaskQueue } from '../src/ordered-queue';
+
+// a promise settled from the outside
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (error: unknown) => void;
+	const promise = new Promise<T>((res, rej) => ((resolve = res), (reject = rej)));
+	return { promise, resolve, reject };
+}
+
+describe('OrderedTaskQueue', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('delivers results in the order the tasks were added', async () => {
+		const delivered: Array<[string, number]> = [];
+		const queue = new OrderedTaskQueue<string>(3, (value, seq) => delivered.push([value, seq]));
+		const tasks = [deferred<string>(), deferred<string>(), deferred<string>()];
+		for (const task of tasks) queue.add(() => task.promise);
+
+		tasks[2].resolve('c');
+		tasks[1].resolve('b');
+		await new Promise((resolve) => setTimeout(resolve));
+		expect(delivered).toEqual([]);
+
+		tasks[0].resolve('a');
+		await queue.onIdle();
+		expect(delivered).toEqual([
+			['a', 0],
+			['b', 1],
+			['c', 2],
+		]);
+	});
+
+	it('runs no more tasks at once than its concurrency', async () => {
+		let running = 0;
+		let mostRunning = 0;
+		const queue = new OrderedTaskQueue<number>(2, () => {});
+		for (let i = 0; i < 5; i++) {
+			queue.add(async (seq) => {
+				mostRunning = Math.max(mostRunning, ++running);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				running--;
+				return seq;
+			});
+		}
+		await queue.onIdle();
+		expect(mostRunning).toBe(2);
+	});
+
+	it('skips a failed task without blocking the ones behind it', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const delivered: number[] = [];
+		const queue = new OrderedTaskQueue<number>(2, (_value, seq) => delivered.push(seq));
+		queue.add(async () => {
+			throw new Error('synthesis failed');
+		});
+		queue.add(async (seq) => seq);
+		await queue.onIdle();
+		expect(delivered).toEqual([1]);
+		expect(error).toHaveBeenCalledOnce();
+	});
+
+	it('drops the results of tasks added before clear and keeps counting', async () => {
+		const delivered: Array<[string, number]> = [];
+		const queue = new OrderedTaskQueue<string>(1, (value, seq) => delivered.push([value, seq]));
+		const running = deferred<string>();
+		queue.add(() => running.promise);
+		queue.add(async () => 'queued');
+
+		queue.clear();
+		running.resolve('running');
+		expect(queue.add(async () => 'after')).toBe(2);
+		await queue.onIdle();
+		expect(delivered).toEqual([['after', 2]]);
+	});
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { truncateToHeard } from '../src/playback';
+
+describe('truncateToHeard', () => {
+	it('keeps the share of words that was played', () => {
+		expect(truncateToHeard('one two three four', 500, 1000)).toBe('one two...');
+		expect(truncateToHeard('one  two three four', 999, 1000)).toBe('one two three...');
+	});
+
+	it('keeps the whole text when it was played to the end or its length is unknown', () => {
+		expect(truncateToHeard('one two three four', 1000, 1000)).toBe('one two three four');
+		expect(truncateToHeard('one two three four', 1500, 1000)).toBe('one two three four');
+		expect(truncateToHeard('one two three four', 500, 0)).toBe('one two three four');
+	});
+
+	it('returns nothing when not even a word was heard', () => {
+		expect(truncateToHeard('one two three four', 100, 1000)).toBe('');
+		expect(truncateToHeard('one two three four', 0, 1000)).toBe('');
+	});
+});
@@ -0,0 +1,108 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimits, RateLimiter } from '../src/rate-limit';
+
+const MINUTE_MS = 60_000;
+const START = new Date('2025-01-01T00:00:00Z').getTime();
+
+// every test gets a limiter of its own
+function withLimiter(name: string, run: (limiter: RateLimiter) => void | Promise<void>): Promise<void> {
+	const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(name));
+	return runInDurableObject(stub, (limiter: RateLimiter) => run(limiter));
+}
+
+describe('RateLimiter.consume', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(START);
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('records usage up to the limit', () =>
+		withLimiter('up-to-limit', (limiter) => {
+			expect(limiter.consume('audio', 40, 90, MINUTE_MS)).toBe(0);
+			expect(limiter.consume('audio', 50, 90, MINUTE_MS)).toBe(0);
+			expect(limiter.consume('audio', 0.5, 90, MINUTE_MS)).toBeGreaterThan(0);
+		}));
+
+	it('waits until enough of the oldest usage left the window', () =>
+		withLimiter('oldest-first', (limiter) => {
+			expect(limiter.consume('audio', 4, 10, MINUTE_MS)).toBe(0);
+			vi.setSystemTime(START + 10_000);
+			expect(limiter.consume('audio', 4, 10, MINUTE_MS)).toBe(0);
+			vi.setSystemTime(START + 20_000);
+			// 2 too many, the first entry leaving the window frees 4
+			expect(limiter.consume('audio', 4, 10, MINUTE_MS)).toBe(40_000);
+			// 6 too many, both entries have to leave
+			expect(limiter.consume('audio', 8, 10, MINUTE_MS)).toBe(50_000);
+		}));
+
+	it('does not record rejected usage', () =>
+		withLimiter('rejected', (limiter) => {
+			expect(limiter.consume('turn', 1, 1, MINUTE_MS)).toBe(0);
+			expect(limiter.consume('turn', 1, 1, MINUTE_MS)).toBe(MINUTE_MS);
+			vi.setSystemTime(START + MINUTE_MS);
+			expect(limiter.consume('turn', 1, 1, MINUTE_MS)).toBe(0);
+		}));
+
+	it('forgets usage once it is a full window old', () =>
+		withLimiter('sliding', (limiter) => {
+			expect(limiter.consume('turn', 2, 2, MINUTE_MS)).toBe(0);
+			vi.setSystemTime(START + MINUTE_MS - 1);
+			expect(limiter.consume('turn', 1, 2, MINUTE_MS)).toBe(1);
+			vi.setSystemTime(START + MINUTE_MS);
+			expect(limiter.consume('turn', 2, 2, MINUTE_MS)).toBe(0);
+		}));
+
+	it('asks for a whole window when the amount alone is over the limit', () =>
+		withLimiter('too-large', (limiter) => {
+			expect(limiter.consume('audio', 120, 90, MINUTE_MS)).toBe(MINUTE_MS);
+		}));
+
+	it('counts every kind on its own', () =>
+		withLimiter('kinds', (limiter) => {
+			expect(limiter.consume('turn', 1, 1, MINUTE_MS)).toBe(0);
+			expect(limiter.consume('token', 1, 1, MINUTE_MS)).toBe(0);
+			expect(limiter.consume('turn', 1, 1, MINUTE_MS)).toBe(MINUTE_MS);
+		}));
+});
+
+describe('RateLimiter.refund', () => {
+	it('takes back the latest usage of the amount', () =>
+		withLimiter('refund', (limiter) => {
+			expect(limiter.consume('turn', 1, 2, MINUTE_MS)).toBe(0);
+			expect(limiter.consume('turn', 1, 2, MINUTE_MS)).toBe(0);
+			limiter.refund('turn', 1);
+			expect(limiter.consume('turn', 1, 2, MINUTE_MS)).toBe(0);
+			expect(limiter.consume('turn', 1, 2, MINUTE_MS)).toBeGreaterThan(0);
+		}));
+});
+
+describe('createRateLimits', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("does not count an answer the IP's limit rejected against the user", async () => {
+		const limits = createRateLimits(
+			{ ...env, LLM_TURNS_PER_HOUR: '2', LLM_TURNS_PER_HOUR_PER_IP: '1' },
+			{ user: 'user-rejected', ip: '192.0.2.1' }
+		);
+		expect(await limits?.addTurn()).toBeNull();
+		expect(await limits?.addTurn()).toMatchObject({ message: 'Your network reached the limit of 1 answers per hour.' });
+
+		// the user has used one of their two answers, not both
+		const elsewhere = createRateLimits({ ...env, LLM_TURNS_PER_HOUR: '2' }, { user: 'user-rejected', ip: '192.0.2.2' });
+		expect(await elsewhere?.addTurn()).toBeNull();
+		expect(await elsewhere?.addTurn()).toMatchObject({ message: 'You reached the limit of 2 answers per hour.' });
+	});
+
+	it('falls back to the default for a limit that is not a number', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const limits = createRateLimits({ ...env, LLM_TURNS_PER_HOUR: 'two' }, { user: 'user-typo', ip: '192.0.2.3' });
+		expect(warn).toHaveBeenCalledWith('Ignoring invalid rate limit "two", using 200');
+		expect(await limits?.addTurn()).toBeNull();
+	});
+});
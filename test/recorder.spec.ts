@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { placeSegments, Segment } from '../src/recorder';
+
+const SAMPLES_PER_MS = 16;
+
+// a segment of `ms` length, recorded by `socket` at `startedAt`
+const segment = (socket: string, startedAt: number, ms: number): Segment => ({
+	key: `${socket}-${startedAt}`,
+	channel: 'user',
+	socket,
+	startedAt,
+	length: ms * SAMPLES_PER_MS,
+});
+
+describe('placeSegments', () => {
+	it('keeps the timing of one socket', () => {
+		const placed = placeSegments([segment('a', 61_000, 500), segment('a', 1000, 2000)]);
+		expect(placed.map(({ offset }) => offset)).toEqual([0, 60_000 * SAMPLES_PER_MS]);
+	});
+
+	it('cuts the silence between sockets to two seconds', () => {
+		const hour = 60 * 60 * 1000;
+		const placed = placeSegments([
+			segment('a', 0, 1000),
+			segment('a', 5000, 1000),
+			segment('b', hour, 1000),
+			segment('b', hour + 3000, 500),
+		]);
+		expect(placed.map(({ offset }) => offset / SAMPLES_PER_MS)).toEqual([0, 5000, 8000, 11_000]);
+	});
+
+	it('keeps short gaps between sockets as they were', () => {
+		const placed = placeSegments([segment('a', 0, 1000), segment('b', 1500, 1000)]);
+		expect(placed.map(({ offset }) => offset / SAMPLES_PER_MS)).toEqual([0, 1500]);
+	});
+
+	it('keeps sockets that overlap where they were', () => {
+		const placed = placeSegments([segment('a', 0, 10_000), segment('b', 4000, 1000), segment('c', 60_000, 1000)]);
+		expect(placed.map(({ offset }) => offset / SAMPLES_PER_MS)).toEqual([0, 4000, 12_000]);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { Turn } from '../src/conversation';
+import { exportTranscript, isTranscriptFormat } from '../src/transcript';
+
+const START = Date.UTC(2026, 0, 2, 9, 30);
+
+const turn = (role: Turn['role'], text: string, startMs: number, fields: Partial<Turn> = {}): Turn => ({
+	id: `${role}-${startMs}`,
+	role,
+	text,
+	startedAt: START + startMs,
+	endedAt: null,
+	audioMs: 0,
+	confidence: null,
+	model: null,
+	usage: null,
+	toolCalls: [],
+	interrupted: false,
+	...fields,
+});
+
+const turns = [
+	turn('user', 'Hello there', 0, { endedAt: START + 2500 }),
+	turn('assistant', 'Hi <you> & me', 3000, { endedAt: START + 3500, audioMs: 4200, interrupted: true }),
+	turn('user', 'Bye', 3_723_456, { endedAt: START + 3_723_456 }),
+];
+
+describe('exportTranscript', () => {
+	it('writes WebVTT cues that last as long as the speech and escapes markup', () => {
+		const { content, contentType, filename } = exportTranscript('abc', turns, 'vtt');
+		expect(contentType).toBe('text/vtt; charset=utf-8');
+		expect(filename).toBe('transcript-abc.vtt');
+		expect(content).toBe(
+			[
+				'WEBVTT',
+				'1\n00:00:00.000 --> 00:00:02.500\n<v User>Hello there',
+				'2\n00:00:03.000 --> 00:00:07.200\n<v AI>Hi &lt;you&gt; &amp; me',
+				'3\n01:02:03.456 --> 01:02:04.456\n<v User>Bye',
+			].join('\n\n') + '\n'
+		);
+	});
+
+	it('writes SRT cues with a comma before the milliseconds', () => {
+		const { content, filename } = exportTranscript('abc', turns, 'srt');
+		expect(filename).toBe('transcript-abc.srt');
+		expect(content).toBe(
+			[
+				'1\n00:00:00,000 --> 00:00:02,500\nUser: Hello there',
+				'2\n00:00:03,000 --> 00:00:07,200\nAI: Hi <you> & me',
+				'3\n01:02:03,456 --> 01:02:04,456\nUser: Bye',
+			].join('\n\n') + '\n'
+		);
+	});
+
+	it('writes Markdown with the time of each turn and marks interruptions', () => {
+		const { content, filename } = exportTranscript('abc', turns.slice(0, 2), 'markdown');
+		expect(filename).toBe('transcript-abc.md');
+		expect(content).toBe(
+			[
+				'# Transcript',
+				'',
+				'Session `abc`',
+				'',
+				'**User** (2026-01-02T09:30:00.000Z): Hello there',
+				'',
+				'**AI** (2026-01-02T09:30:03.000Z): Hi <you> & me _(interrupted)_',
+				'',
+			].join('\n')
+		);
+	});
+
+	it('writes JSON with every turn', () => {
+		const { content, contentType } = exportTranscript('abc', turns, 'json');
+		expect(contentType).toBe('application/json');
+		expect(JSON.parse(content)).toMatchObject({ sessionId: 'abc', turns });
+	});
+
+	it('writes an empty transcript without cues', () => {
+		expect(exportTranscript('abc', [], 'vtt').content).toBe('WEBVTT\n');
+		expect(exportTranscript('abc', [], 'srt').content).toBe('\n');
+	});
+});
+
+describe('isTranscriptFormat', () => {
+	it('accepts only the export formats', () => {
+		expect(isTranscriptFormat('markdown')).toBe(true);
+		expect(isTranscriptFormat('md')).toBe(false);
+		expect(isTranscriptFormat('toString')).toBe(false);
+	});
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnits } from '../src/tools/units';
+
+describe('convertUnits', () => {
+	it('converts between temperature scales', () => {
+		expect(convertUnits(100, 'C', 'F')).toBeCloseTo(212);
+		expect(convertUnits(32, '°F', 'celsius')).toBeCloseTo(0);
+		expect(convertUnits(-40, 'fahrenheit', 'c')).toBeCloseTo(-40);
+		expect(convertUnits(0, 'Celsius', 'kelvin')).toBeCloseTo(273.15);
+		expect(convertUnits(0, 'k', 'f')).toBeCloseTo(-459.67);
+	});
+
+	it('converts within a category', () => {
+		expect(convertUnits(1, 'mile', 'km')).toBeCloseTo(1.609344);
+		expect(convertUnits(12, 'inches', 'ft')).toBeCloseTo(1);
+		expect(convertUnits(1, 'kg', 'lb')).toBeCloseTo(2.20462);
+		expect(convertUnits(1, 'gallon', 'l')).toBeCloseTo(3.785411784);
+		expect(convertUnits(2, 'tbsp', 'tsp')).toBeCloseTo(6);
+		expect(convertUnits(100, 'km/h', 'm/s')).toBeCloseTo(27.7778);
+		expect(convertUnits(1, 'day', 'hours')).toBe(24);
+	});
+
+	it('ignores case and surrounding spaces', () => {
+		expect(convertUnits(1, ' Fluid Ounce ', 'ML')).toBeCloseTo(29.5735);
+	});
+
+	it('rejects unknown and mismatched units', () => {
+		expect(() => convertUnits(1, 'parsec', 'km')).toThrow('Unknown unit "parsec"');
+		expect(() => convertUnits(1, 'km', 'constructor')).toThrow('Unknown unit "constructor"');
+		expect(() => convertUnits(1, 'kg', 'm')).toThrow('Cannot convert mass (kg) to length (m)');
+		expect(() => convertUnits(1, 'c', 'm')).toThrow('Cannot convert c to m');
+	});
+});
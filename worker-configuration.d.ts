@@ -2,10 +2,54 @@
 // Runtime types generated with workerd@1.20250317.0 2025-03-17 nodejs_compat
 declare namespace Cloudflare {
 	interface Env {
-		MY_DURABLE_OBJECT: DurableObjectNamespace<import("./src/index").MyDurableObject>;
+		MY_DURABLE_OBJECT: DurableObjectNamespace<import("./src/index").VoiceSession>;
+		KNOWLEDGE_BASE: DurableObjectNamespace<import("./src/index").KnowledgeBase>;
+		PERSONAS: DurableObjectNamespace<import("./src/index").PersonaStore>;
+		USER_MEMORY: DurableObjectNamespace<import("./src/index").UserMemory>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
 		AI: Ai;
 		ASSETS: Fetcher;
 		DEEPGRAM: string;
+		RECORDINGS_TOKEN: string;
+		TRANSCRIPTS_TOKEN: string;
+		KNOWLEDGE_TOKEN: string;
+		PERSONAS_TOKEN: string;
+		MEMORY_TOKEN: string;
+		AUTH_SECRET: string;
+		TOKEN_ISSUER_KEY: string;
+		STT_PROVIDER: string;
+		STT_ENDPOINTING_MS: string;
+		STT_UTTERANCE_END_MS: string;
+		TURN_DETECTION: string;
+		TURN_MAX_WAIT_MS: string;
+		TTS_PROVIDER: string;
+		TTS_MODE: string;
+		TTS_CONCURRENCY: string;
+		TOOLS: string;
+		MCP_SERVERS: string;
+		RECORDING: string;
+		KNOWLEDGE_RETRIEVAL: string;
+		KNOWLEDGE_TOP_K: string;
+		CONTEXT_TOKEN_BUDGET: string;
+		SUMMARY_MODEL: string;
+		MEMORY: string;
+		MEMORY_MODEL: string;
+		AUTH: string;
+		ANONYMOUS_TOKENS: string;
+		ALLOWED_ORIGINS: string;
+		TOKEN_TTL_SECONDS: string;
+		RATE_LIMITING: string;
+		MAX_SESSIONS_PER_USER: string;
+		MAX_SOCKETS_PER_IP: string;
+		AUDIO_SECONDS_PER_MINUTE: string;
+		LLM_TURNS_PER_HOUR: string;
+		AUDIO_SECONDS_PER_MINUTE_PER_IP: string;
+		LLM_TURNS_PER_HOUR_PER_IP: string;
+		TOKENS_PER_HOUR_PER_IP: string;
+		VOICE_SAMPLES_PER_HOUR: string;
+		PERSONA: string;
+		RECORDINGS: R2Bucket;
+		KNOWLEDGE_INDEX?: Vectorize;
 	}
 }
 interface Env extends Cloudflare.Env {}